@@ -0,0 +1,99 @@
+use std::fs;
+use std::path::{Path, PathBuf};
+
+use tauri::ipc::{InvokeBody, Request};
+use tauri::{AppHandle, Manager};
+
+const RECENT_FILES_NAME: &str = "recent-files.json";
+const MAX_RECENT_FILES: usize = 10;
+
+fn recent_files_path(app: &AppHandle) -> Result<PathBuf, String> {
+    let dir = app.path().app_data_dir().map_err(|e| e.to_string())?;
+    fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+    Ok(dir.join(RECENT_FILES_NAME))
+}
+
+fn load_recent_files(app: &AppHandle) -> Result<Vec<String>, String> {
+    let path = recent_files_path(app)?;
+    if !path.exists() {
+        return Ok(Vec::new());
+    }
+    let contents = fs::read_to_string(&path).map_err(|e| e.to_string())?;
+    let files: Vec<String> = serde_json::from_str(&contents).unwrap_or_default();
+    Ok(files.into_iter().filter(|f| Path::new(f).exists()).collect())
+}
+
+fn store_recent_files(app: &AppHandle, files: &[String]) -> Result<(), String> {
+    let path = recent_files_path(app)?;
+    let contents = serde_json::to_string_pretty(files).map_err(|e| e.to_string())?;
+    fs::write(path, contents).map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+pub fn read_design_file(path: String) -> Result<String, String> {
+    fs::read_to_string(&path).map_err(|e| format!("Could not read {}: {}", path, e))
+}
+
+pub(crate) fn write_atomically(path: &str, contents: &[u8]) -> Result<(), String> {
+    // Write next to the target first so a crash mid-write never truncates an existing file.
+    let tmp_path = format!("{}.tmp", path);
+    fs::write(&tmp_path, contents).map_err(|e| format!("Could not write {}: {}", path, e))?;
+    fs::rename(&tmp_path, path).map_err(|e| format!("Could not write {}: {}", path, e))
+}
+
+#[tauri::command]
+pub fn write_design_file(path: String, contents: String) -> Result<(), String> {
+    write_atomically(&path, contents.as_bytes())
+}
+
+// The target path travels percent-encoded in a request header so non-ASCII names survive.
+fn decode_path_header(encoded: &str) -> Result<String, String> {
+    let bytes = encoded.as_bytes();
+    let mut decoded = Vec::with_capacity(bytes.len());
+    let mut i = 0;
+    while i < bytes.len() {
+        if bytes[i] == b'%' {
+            let hex = encoded.get(i + 1..i + 3).ok_or("Malformed path header")?;
+            decoded.push(u8::from_str_radix(hex, 16).map_err(|e| e.to_string())?);
+            i += 3;
+        } else {
+            decoded.push(bytes[i]);
+            i += 1;
+        }
+    }
+    String::from_utf8(decoded).map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+pub fn write_binary_file(request: Request<'_>) -> Result<(), String> {
+    let header = request
+        .headers()
+        .get("path")
+        .and_then(|value| value.to_str().ok())
+        .ok_or("Missing target path")?;
+    let path = decode_path_header(header)?;
+    match request.body() {
+        InvokeBody::Raw(contents) => write_atomically(&path, contents),
+        InvokeBody::Json(_) => Err(format!("Could not write {}: expected raw file contents", path)),
+    }
+}
+
+#[tauri::command]
+pub fn get_recent_files(app: AppHandle) -> Result<Vec<String>, String> {
+    load_recent_files(&app)
+}
+
+#[tauri::command]
+pub fn add_recent_file(app: AppHandle, path: String) -> Result<Vec<String>, String> {
+    let mut files = load_recent_files(&app)?;
+    files.retain(|f| f != &path);
+    files.insert(0, path);
+    files.truncate(MAX_RECENT_FILES);
+    store_recent_files(&app, &files)?;
+    Ok(files)
+}
+
+#[tauri::command]
+pub fn clear_recent_files(app: AppHandle) -> Result<(), String> {
+    store_recent_files(&app, &[])
+}
@@ -1,3 +1,6 @@
+mod files;
+mod textures;
+
 // Learn more about Tauri commands at https://tauri.app/develop/calling-rust/
 #[tauri::command]
 fn greet(name: &str) -> String {
@@ -8,7 +11,21 @@ fn greet(name: &str) -> String {
 pub fn run() {
     tauri::Builder::default()
         .plugin(tauri_plugin_opener::init())
-        .invoke_handler(tauri::generate_handler![greet])
+        .plugin(tauri_plugin_dialog::init())
+        .invoke_handler(tauri::generate_handler![
+            greet,
+            files::read_design_file,
+            files::write_design_file,
+            files::write_binary_file,
+            files::get_recent_files,
+            files::add_recent_file,
+            files::clear_recent_files,
+            textures::read_texture_file,
+            textures::read_cached_texture,
+            textures::write_cached_texture,
+            textures::get_cached_textures,
+            textures::add_cached_texture
+        ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
 }
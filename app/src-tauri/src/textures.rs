@@ -0,0 +1,129 @@
+use std::fs;
+use std::path::PathBuf;
+
+use serde::{Deserialize, Serialize};
+use sha2::{Digest, Sha256};
+use tauri::ipc::{InvokeBody, Request, Response};
+use tauri::{AppHandle, Manager};
+
+use crate::files::write_atomically;
+
+const CACHE_DIR_NAME: &str = "texture-cache";
+const INDEX_NAME: &str = "index.json";
+const IMAGE_EXTENSIONS: [&str; 4] = ["png", "jpg", "jpeg", "webp"];
+
+#[derive(Serialize, Deserialize, Clone)]
+pub struct CachedTexture {
+    file: String,
+    name: String,
+    source: Option<String>,
+    thumbnail: String,
+}
+
+fn cache_dir(app: &AppHandle) -> Result<PathBuf, String> {
+    let dir = app
+        .path()
+        .app_data_dir()
+        .map_err(|e| e.to_string())?
+        .join(CACHE_DIR_NAME);
+    fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+    Ok(dir)
+}
+
+// Cache files are named after the SHA-256 of their contents, so anything else is refused
+// rather than joined onto the cache directory.
+fn cache_file_path(app: &AppHandle, file: &str) -> Result<PathBuf, String> {
+    let valid = match file.rsplit_once('.') {
+        Some((hash, extension)) => {
+            hash.len() == 64
+                && hash.chars().all(|c| c.is_ascii_hexdigit())
+                && IMAGE_EXTENSIONS.contains(&extension)
+        }
+        None => false,
+    };
+    if !valid {
+        return Err(format!("Invalid texture cache file name: {}", file));
+    }
+    Ok(cache_dir(app)?.join(file))
+}
+
+fn content_hash(contents: &[u8]) -> String {
+    Sha256::digest(contents)
+        .iter()
+        .map(|byte| format!("{:02x}", byte))
+        .collect()
+}
+
+fn load_index(app: &AppHandle) -> Result<Vec<CachedTexture>, String> {
+    let dir = cache_dir(app)?;
+    let path = dir.join(INDEX_NAME);
+    if !path.exists() {
+        return Ok(Vec::new());
+    }
+    let contents = fs::read_to_string(&path).map_err(|e| e.to_string())?;
+    let entries: Vec<CachedTexture> = serde_json::from_str(&contents).unwrap_or_default();
+    Ok(entries
+        .into_iter()
+        .filter(|entry| dir.join(&entry.file).exists())
+        .collect())
+}
+
+fn store_index(app: &AppHandle, entries: &[CachedTexture]) -> Result<(), String> {
+    let path = cache_dir(app)?.join(INDEX_NAME);
+    let contents = serde_json::to_string_pretty(entries).map_err(|e| e.to_string())?;
+    write_atomically(&path.to_string_lossy(), contents.as_bytes())
+}
+
+#[tauri::command]
+pub fn read_texture_file(path: String) -> Result<Response, String> {
+    fs::read(&path)
+        .map(Response::new)
+        .map_err(|e| format!("Could not read {}: {}", path, e))
+}
+
+#[tauri::command]
+pub fn read_cached_texture(app: AppHandle, file: String) -> Result<Response, String> {
+    let path = cache_file_path(&app, &file)?;
+    fs::read(&path)
+        .map(Response::new)
+        .map_err(|e| format!("Texture {} is not in the cache: {}", file, e))
+}
+
+// The file name travels in a header next to the raw image bytes and must be their SHA-256.
+// Identical content is only written once; a damaged copy already in the cache is replaced.
+#[tauri::command]
+pub fn write_cached_texture(app: AppHandle, request: Request<'_>) -> Result<(), String> {
+    let file = request
+        .headers()
+        .get("file")
+        .and_then(|value| value.to_str().ok())
+        .ok_or("Missing cache file name")?;
+    let path = cache_file_path(&app, file)?;
+    let InvokeBody::Raw(contents) = request.body() else {
+        return Err(format!("Could not cache {}: expected raw image contents", file));
+    };
+
+    let expected = file.rsplit_once('.').map_or(file, |(hash, _)| hash);
+    if !content_hash(contents).eq_ignore_ascii_case(expected) {
+        return Err(format!("Could not cache {}: contents do not match the file name", file));
+    }
+    if fs::read(&path).map(|existing| existing == *contents).unwrap_or(false) {
+        return Ok(());
+    }
+    write_atomically(&path.to_string_lossy(), contents)
+}
+
+#[tauri::command]
+pub fn get_cached_textures(app: AppHandle) -> Result<Vec<CachedTexture>, String> {
+    load_index(&app)
+}
+
+#[tauri::command]
+pub fn add_cached_texture(app: AppHandle, entry: CachedTexture) -> Result<Vec<CachedTexture>, String> {
+    cache_file_path(&app, &entry.file)?;
+    let mut entries = load_index(&app)?;
+    entries.retain(|existing| existing.file != entry.file);
+    entries.insert(0, entry);
+    store_index(&app, &entries)?;
+    Ok(entries)
+}
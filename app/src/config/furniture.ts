@@ -0,0 +1,214 @@
+import * as THREE from 'three';
+
+import { FurnitureDefinition } from '../types/FurnitureCatalog';
+
+// Structural parts keep their real thickness whatever the overall size of the piece.
+const TABLE_TOP = 0.1;
+const TABLE_LEG = 0.08;
+const CHAIR_SEAT = 0.08;
+const CHAIR_LEG = 0.06;
+const CHAIR_BACK_HEIGHT = 0.6;
+const SOFA_ARM = 0.2;
+const SOFA_BACK = 0.2;
+const SOFA_CUSHION_GAP = 0.02;
+const SHELF_SIDE = 0.08;
+const SHELF_BOARD = 0.06;
+const LAMP_BASE = 0.05;
+const LAMP_POLE = 0.03;
+
+export const BUILT_IN_FURNITURE: FurnitureDefinition[] = [
+  {
+    id: 'table',
+    name: '🍽️ Table',
+    category: 'Tables',
+    dimensions: { width: 1.5, height: 0.8, depth: 1.0 },
+    parameters: [
+      { key: 'width', label: 'Width', kind: 'length', min: 0.6, max: 3, step: 0.01, default: 1.5 },
+      { key: 'depth', label: 'Depth', kind: 'length', min: 0.5, max: 2, step: 0.01, default: 1.0 },
+      { key: 'height', label: 'Height', kind: 'length', min: 0.4, max: 1.2, step: 0.01, default: 0.8 }
+    ],
+    build: (kit, { width, depth, height }) => {
+      const group = new THREE.Group();
+
+      const top = kit.createBox(width, TABLE_TOP, depth, 0x996633, new THREE.Vector3(0, height - TABLE_TOP / 2, 0), 'top');
+      group.add(top);
+
+      const legHeight = height - TABLE_TOP;
+      const legX = width / 2 - 0.1;
+      const legZ = depth / 2 - 0.1;
+      const legPositions = [
+        new THREE.Vector3(-legX, legHeight / 2, -legZ),
+        new THREE.Vector3(legX, legHeight / 2, -legZ),
+        new THREE.Vector3(-legX, legHeight / 2, legZ),
+        new THREE.Vector3(legX, legHeight / 2, legZ)
+      ];
+
+      legPositions.forEach(pos => {
+        const leg = kit.createBox(TABLE_LEG, legHeight, TABLE_LEG, 0x805a2e, pos, 'legs');
+        group.add(leg);
+      });
+
+      return group;
+    }
+  },
+  {
+    id: 'chair',
+    name: '🪑 Chair',
+    category: 'Seating',
+    dimensions: { width: 0.5, height: 1.14, depth: 0.5 },
+    parameters: [
+      { key: 'width', label: 'Width', kind: 'length', min: 0.4, max: 0.8, step: 0.01, default: 0.5 },
+      { key: 'depth', label: 'Depth', kind: 'length', min: 0.4, max: 0.8, step: 0.01, default: 0.5 },
+      { key: 'seatHeight', label: 'Seat Height', kind: 'length', min: 0.35, max: 0.8, step: 0.01, default: 0.54 }
+    ],
+    build: (kit, { width, depth, seatHeight }) => {
+      const group = new THREE.Group();
+
+      const seat = kit.createBox(width, CHAIR_SEAT, depth, 0x996633, new THREE.Vector3(0, seatHeight - CHAIR_SEAT / 2, 0), 'seat');
+      group.add(seat);
+
+      const back = kit.createBox(
+        width,
+        CHAIR_BACK_HEIGHT,
+        CHAIR_SEAT,
+        0x996633,
+        new THREE.Vector3(0, seatHeight + CHAIR_BACK_HEIGHT / 2, -(depth - CHAIR_SEAT) / 2),
+        'back'
+      );
+      group.add(back);
+
+      const legHeight = seatHeight - CHAIR_SEAT;
+      const legX = width / 2 - 0.07;
+      const legZ = depth / 2 - 0.07;
+      const legPositions = [
+        new THREE.Vector3(-legX, legHeight / 2, -legZ),
+        new THREE.Vector3(legX, legHeight / 2, -legZ),
+        new THREE.Vector3(-legX, legHeight / 2, legZ),
+        new THREE.Vector3(legX, legHeight / 2, legZ)
+      ];
+
+      legPositions.forEach(pos => {
+        const leg = kit.createBox(CHAIR_LEG, legHeight, CHAIR_LEG, 0x805a2e, pos, 'legs');
+        group.add(leg);
+      });
+
+      return group;
+    }
+  },
+  {
+    id: 'sofa',
+    name: '🛋️ Sofa',
+    category: 'Seating',
+    dimensions: { width: 2.2, height: 1.0, depth: 0.8 },
+    parameters: [
+      { key: 'seats', label: 'Seats', kind: 'count', min: 1, max: 5, step: 1, default: 3 },
+      { key: 'seatWidth', label: 'Seat Width', kind: 'length', min: 0.45, max: 0.9, step: 0.01, default: 0.6 },
+      { key: 'depth', label: 'Depth', kind: 'length', min: 0.7, max: 1.2, step: 0.01, default: 0.8 }
+    ],
+    build: (kit, { seats, seatWidth, depth }) => {
+      const group = new THREE.Group();
+      const innerWidth = seats * seatWidth;
+
+      const base = kit.createBox(innerWidth, 0.15, depth, 0x262626, new THREE.Vector3(0, 0.075, 0), 'frame');
+      group.add(base);
+
+      // One cushion per seat so the seat count shows.
+      for (let i = 0; i < seats; i++) {
+        const x = -innerWidth / 2 + seatWidth * (i + 0.5);
+        const cushion = kit.createBox(seatWidth - SOFA_CUSHION_GAP, 0.4, depth, 0x334d80, new THREE.Vector3(x, 0.4, 0), 'seat');
+        group.add(cushion);
+      }
+
+      const back = kit.createBox(innerWidth, 0.6, SOFA_BACK, 0x334d80, new THREE.Vector3(0, 0.7, -(depth - SOFA_BACK) / 2), 'back');
+      group.add(back);
+
+      const armX = (innerWidth + SOFA_ARM) / 2;
+      const leftArm = kit.createBox(SOFA_ARM, 0.5, depth, 0x2e477a, new THREE.Vector3(-armX, 0.45, 0), 'arms');
+      group.add(leftArm);
+
+      const rightArm = kit.createBox(SOFA_ARM, 0.5, depth, 0x2e477a, new THREE.Vector3(armX, 0.45, 0), 'arms');
+      group.add(rightArm);
+
+      return group;
+    }
+  },
+  {
+    id: 'bookshelf',
+    name: '📚 Bookshelf',
+    category: 'Storage',
+    dimensions: { width: 1.0, height: 1.5, depth: 0.4 },
+    parameters: [
+      { key: 'width', label: 'Width', kind: 'length', min: 0.4, max: 2.4, step: 0.01, default: 1.0 },
+      { key: 'height', label: 'Height', kind: 'length', min: 0.6, max: 2.6, step: 0.01, default: 1.5 },
+      { key: 'depth', label: 'Depth', kind: 'length', min: 0.2, max: 0.6, step: 0.01, default: 0.4 },
+      { key: 'shelves', label: 'Shelves', kind: 'count', min: 2, max: 10, step: 1, default: 4 }
+    ],
+    build: (kit, { width, height, depth, shelves }) => {
+      const group = new THREE.Group();
+
+      const sideX = (width - SHELF_SIDE) / 2;
+      const leftSide = kit.createBox(SHELF_SIDE, height, depth, 0x805a33, new THREE.Vector3(-sideX, height / 2, 0), 'frame');
+      group.add(leftSide);
+
+      const rightSide = kit.createBox(SHELF_SIDE, height, depth, 0x805a33, new THREE.Vector3(sideX, height / 2, 0), 'frame');
+      group.add(rightSide);
+
+      // Shelves are spread evenly from the bottom board to the top board.
+      const spacing = (height - SHELF_BOARD) / (shelves - 1);
+      for (let i = 0; i < shelves; i++) {
+        const y = SHELF_BOARD / 2 + i * spacing;
+        const shelf = kit.createBox(width - SHELF_SIDE * 2, SHELF_BOARD, depth, 0x8c6640, new THREE.Vector3(0, y, 0), 'shelves');
+        group.add(shelf);
+      }
+
+      return group;
+    }
+  },
+  {
+    id: 'lamp',
+    name: '💡 Floor Lamp',
+    category: 'Lighting',
+    dimensions: { width: 0.3, height: 1.32, depth: 0.3 },
+    parameters: [
+      { key: 'height', label: 'Height', kind: 'length', min: 0.8, max: 2.2, step: 0.01, default: 1.32 },
+      { key: 'shadeSize', label: 'Shade Size', kind: 'length', min: 0.2, max: 0.6, step: 0.01, default: 0.3 }
+    ],
+    build: (kit, { height, shadeSize }) => {
+      const group = new THREE.Group();
+
+      const base = kit.createBox(0.2, LAMP_BASE, 0.2, 0x4d4d4d, new THREE.Vector3(0, LAMP_BASE / 2, 0), 'base');
+      group.add(base);
+
+      const shadeHeight = shadeSize * 0.8;
+      const shadeY = height - shadeHeight / 2;
+      const poleHeight = height - shadeHeight - LAMP_BASE;
+      const pole = kit.createBox(LAMP_POLE, poleHeight, LAMP_POLE, 0x666666, new THREE.Vector3(0, LAMP_BASE + poleHeight / 2, 0), 'pole');
+      group.add(pole);
+
+      const shadeGeometry = new THREE.BoxGeometry(shadeSize, shadeHeight, shadeSize);
+      const shadeMaterial = new THREE.MeshBasicMaterial({
+        color: 0xffee88
+      });
+      const shade = new THREE.Mesh(shadeGeometry, shadeMaterial);
+      shade.position.set(0, shadeY, 0);
+      shade.castShadow = false;
+      shade.receiveShadow = false;
+      group.add(shade);
+
+      const light = new THREE.PointLight(0xffeedd, 3.5, 15, 1.5);
+      light.position.set(0, shadeY, 0);
+      light.castShadow = true;
+
+      light.shadow.mapSize.width = 2048;
+      light.shadow.mapSize.height = 2048;
+      light.shadow.camera.near = 0.1;
+      light.shadow.camera.far = 15;
+      light.shadow.bias = -0.001;
+      light.shadow.radius = 2;
+
+      group.add(light);
+
+      return group;
+    }
+  }
+];
@@ -0,0 +1,157 @@
+import { MaterialCategory, MaterialDefinition } from '../types/Material';
+
+export const MATERIAL_LIBRARY: MaterialDefinition[] = [
+  {
+    id: 'wood-parquet',
+    name: '🌲 Wood Parquet',
+    category: 'wood',
+    procedural: 'wood-parquet',
+    color: 0xffffff,
+    roughness: 1,
+    metalness: 0,
+    normalScale: 1,
+    tileSize: { width: 2, height: 2 }
+  },
+  {
+    id: 'oak',
+    name: '🪵 Oak',
+    category: 'wood',
+    procedural: 'oak',
+    color: 0xffffff,
+    roughness: 1,
+    metalness: 0,
+    normalScale: 0.6,
+    tileSize: { width: 1, height: 1 }
+  },
+  {
+    id: 'dark-hardwood',
+    name: '🌳 Dark Hardwood Floor',
+    category: 'wood',
+    maps: {
+      map: 'https://threejs.org/examples/textures/hardwood2_diffuse.jpg',
+      roughnessMap: 'https://threejs.org/examples/textures/hardwood2_roughness.jpg'
+    },
+    color: 0xffffff,
+    roughness: 0.8,
+    metalness: 0,
+    normalScale: 1,
+    tileSize: { width: 2, height: 2 }
+  },
+  {
+    id: 'painted-plaster',
+    name: '🎨 Painted Plaster',
+    category: 'wall',
+    procedural: 'painted-wall',
+    color: 0xffffff,
+    roughness: 1,
+    metalness: 0,
+    normalScale: 0.5,
+    tileSize: { width: 1, height: 1 }
+  },
+  {
+    id: 'brick',
+    name: '🧱 Brick',
+    category: 'wall',
+    procedural: 'brick',
+    color: 0xffffff,
+    roughness: 1,
+    metalness: 0,
+    normalScale: 1.5,
+    tileSize: { width: 0.9, height: 1.2 }
+  },
+  {
+    id: 'red-brick',
+    name: '🧱 Red Brick (Photo)',
+    category: 'wall',
+    maps: {
+      map: 'https://threejs.org/examples/textures/brick_diffuse.jpg',
+      roughnessMap: 'https://threejs.org/examples/textures/brick_roughness.jpg'
+    },
+    color: 0xffffff,
+    roughness: 1,
+    metalness: 0,
+    normalScale: 1,
+    tileSize: { width: 1, height: 1 }
+  },
+  {
+    id: 'checker-tiles',
+    name: '⬜ Checkerboard Tiles',
+    category: 'tile',
+    procedural: 'checkerboard',
+    color: 0xffffff,
+    roughness: 1,
+    metalness: 0,
+    normalScale: 1,
+    tileSize: { width: 1, height: 1 }
+  },
+  {
+    id: 'floor-tiles',
+    name: '🔳 Glazed Floor Tiles (Photo)',
+    category: 'tile',
+    maps: {
+      map: 'https://threejs.org/examples/textures/floors/FloorsCheckerboard_S_Diffuse.jpg',
+      normalMap: 'https://threejs.org/examples/textures/floors/FloorsCheckerboard_S_Normal.jpg'
+    },
+    color: 0xffffff,
+    roughness: 0.3,
+    metalness: 0,
+    normalScale: 1,
+    tileSize: { width: 1.2, height: 1.2 }
+  },
+  {
+    id: 'fabric',
+    name: '🧵 Woven Fabric',
+    category: 'fabric',
+    procedural: 'fabric',
+    color: 0xffffff,
+    roughness: 1,
+    metalness: 0,
+    normalScale: 0.8,
+    tileSize: { width: 0.25, height: 0.25 }
+  },
+  {
+    id: 'brushed-steel',
+    name: '✨ Brushed Steel',
+    category: 'metal',
+    procedural: 'metal',
+    color: 0xffffff,
+    roughness: 1,
+    metalness: 1,
+    normalScale: 0.3,
+    tileSize: { width: 0.5, height: 0.5 }
+  },
+  {
+    id: 'stone',
+    name: '🪨 Stone',
+    category: 'stone',
+    procedural: 'stone',
+    color: 0xffffff,
+    roughness: 1,
+    metalness: 0,
+    normalScale: 1,
+    tileSize: { width: 1.5, height: 1.5 }
+  }
+];
+
+export const MATERIAL_CATEGORIES: Record<MaterialCategory, string> = {
+  wood: '🌲 Wood',
+  wall: '🏠 Walls',
+  tile: '⬜ Tiles',
+  fabric: '🧵 Fabric',
+  metal: '✨ Metal',
+  stone: '🪨 Stone'
+};
+
+// Library entries that replaced the single procedural textures of designs saved before the library existed.
+export const LEGACY_PROCEDURAL_MATERIALS: Record<string, string> = {
+  'wood-parquet': 'wood-parquet',
+  'painted-wall': 'painted-plaster',
+  'brick': 'brick',
+  'checkerboard': 'checker-tiles',
+  'oak': 'oak',
+  'fabric': 'fabric',
+  'metal': 'brushed-steel'
+};
+
+export const DEFAULT_FLOOR_MATERIAL = 'wood-parquet';
+export const DEFAULT_WALL_MATERIAL = 'brick';
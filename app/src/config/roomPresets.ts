@@ -0,0 +1,55 @@
+import { DEFAULT_ROOM_SPEC, RoomSpec } from '../types/RoomSpec';
+
+export interface RoomPreset {
+  name: string;
+  spec: RoomSpec;
+}
+
+export const ROOM_PRESETS: RoomPreset[] = [
+  {
+    name: '⬜ Rectangle',
+    spec: DEFAULT_ROOM_SPEC
+  },
+  {
+    name: '📐 L-Shaped',
+    spec: {
+      height: 5,
+      outline: [
+        { x: -10, z: -10 },
+        { x: 10, z: -10 },
+        { x: 10, z: 2 },
+        { x: 0, z: 2 },
+        { x: 0, z: 10 },
+        { x: -10, z: 10 }
+      ],
+      openings: [
+        { id: 'opening_0', kind: 'window', wallIndex: 0, offset: 10, width: 3, height: 2, sillHeight: 1.5 },
+        { id: 'opening_1', kind: 'window', wallIndex: 1, offset: 6, width: 2.5, height: 2, sillHeight: 1.5 },
+        { id: 'opening_2', kind: 'door', wallIndex: 3, offset: 4, width: 2, height: 3.5, sillHeight: 0 },
+        { id: 'opening_3', kind: 'window', wallIndex: 5, offset: 10, width: 2.5, height: 2, sillHeight: 1.5 }
+      ]
+    }
+  },
+  {
+    name: '🪟 Bay Alcove',
+    spec: {
+      height: 5,
+      outline: [
+        { x: -10, z: -10 },
+        { x: -3, z: -10 },
+        { x: -3, z: -13 },
+        { x: 3, z: -13 },
+        { x: 3, z: -10 },
+        { x: 10, z: -10 },
+        { x: 10, z: 10 },
+        { x: -10, z: 10 }
+      ],
+      openings: [
+        { id: 'opening_0', kind: 'window', wallIndex: 2, offset: 3, width: 3, height: 2, sillHeight: 1.5 },
+        { id: 'opening_1', kind: 'window', wallIndex: 5, offset: 10, width: 2.5, height: 2, sillHeight: 1.5 },
+        { id: 'opening_2', kind: 'door', wallIndex: 6, offset: 10, width: 2, height: 3.5, sillHeight: 0 },
+        { id: 'opening_3', kind: 'window', wallIndex: 7, offset: 10, width: 2.5, height: 2, sillHeight: 1.5 }
+      ]
+    }
+  }
+];
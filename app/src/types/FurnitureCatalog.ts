@@ -0,0 +1,49 @@
+import * as THREE from 'three';
+
+export interface FurnitureDimensions {
+  width: number;
+  height: number;
+  depth: number;
+}
+
+// Parameters named after a dimension map onto the matching scale axis of the piece.
+export const DIMENSION_AXES: Record<keyof FurnitureDimensions, 'x' | 'y' | 'z'> = {
+  width: 'x',
+  height: 'y',
+  depth: 'z'
+};
+
+export interface FurnitureParameter {
+  key: string;
+  label: string;
+  kind: 'length' | 'count';
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export type FurnitureParams = Record<string, number>;
+
+export interface FurnitureBuildKit {
+  // Boxes sharing a part name (e.g. all four legs) take materials together.
+  createBox(
+    width: number,
+    height: number,
+    depth: number,
+    color: THREE.ColorRepresentation,
+    position?: THREE.Vector3,
+    part?: string
+  ): THREE.Mesh;
+}
+
+export type FurnitureBuilder = (kit: FurnitureBuildKit, params: FurnitureParams) => THREE.Group;
+
+export interface FurnitureDefinition {
+  id: string;
+  name: string;
+  category: string;
+  dimensions: FurnitureDimensions;
+  parameters?: FurnitureParameter[];
+  build: FurnitureBuilder;
+}
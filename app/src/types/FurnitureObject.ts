@@ -1,18 +1,30 @@
 import * as THREE from 'three';
 
+import { FurnitureParams } from './FurnitureCatalog';
+import { SurfaceUv } from './Material';
+
+// Any id registered in the furniture catalog.
+export type FurnitureType = string;
+
 export interface FurnitureObject {
   id: string;
-  type: 'table' | 'chair' | 'bookshelf' | 'sofa' | 'lamp';
+  type: FurnitureType;
   group: THREE.Group;
   selected: boolean;
+  params: FurnitureParams;
+  textureUrl?: string;
+  // Per-part overrides on top of textureUrl, keyed by part name.
+  partTextureUrls?: Record<string, string>;
+  uv?: SurfaceUv;
 }
 
 export interface SceneObject {
   id: string;
   name: string;
-  type: 'floor' | 'walls' | 'furniture';
+  type: 'floor' | 'walls' | 'wall' | 'furniture' | 'opening';
   object: THREE.Object3D;
   selected: boolean;
   furnitureRef?: FurnitureObject;
+  openingId?: string;
+  wallIndex?: number;
 }
-
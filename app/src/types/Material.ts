@@ -0,0 +1,49 @@
+export const MATERIAL_CHANNELS = ['map', 'normalMap', 'roughnessMap', 'metalnessMap', 'aoMap'] as const;
+
+export type MaterialChannel = typeof MATERIAL_CHANNELS[number];
+
+export type ProceduralPattern = 'wood-parquet' | 'painted-wall' | 'brick' | 'checkerboard' | 'oak' | 'fabric' | 'metal' | 'stone';
+
+export type MaterialCategory = 'wood' | 'wall' | 'tile' | 'fabric' | 'metal' | 'stone';
+
+export interface TileSize {
+  width: number;
+  height: number;
+}
+
+export interface MaterialDefinition {
+  id: string;
+  name: string;
+  category: MaterialCategory;
+  // Generates every channel at once; image maps below replace individual channels.
+  procedural?: ProceduralPattern;
+  // Channels a photo set leaves out are derived from its albedo.
+  maps?: Partial<Record<MaterialChannel, string>>;
+  color: number;
+  roughness: number;
+  metalness: number;
+  normalScale: number;
+  // Real-world size covered by one repeat of the textures, in metres.
+  tileSize: TileSize;
+}
+
+// How textures are laid on one surface. Offsets are in metres along the surface, rotation in degrees.
+export interface SurfaceUv {
+  // Overrides the material's own tile size; null keeps it.
+  tileSize: TileSize | null;
+  rotation: number;
+  offset: { x: number; y: number };
+  mirrorX: boolean;
+  mirrorY: boolean;
+}
+
+export const DEFAULT_SURFACE_UV: SurfaceUv = {
+  tileSize: null,
+  rotation: 0,
+  offset: { x: 0, y: 0 },
+  mirrorX: false,
+  mirrorY: false
+};
+
+// Library materials are referenced from designs with this scheme; anything else is a single texture URL.
+export const MATERIAL_SCHEME = 'material://';
@@ -0,0 +1,77 @@
+import { FurnitureParams } from './FurnitureCatalog';
+import { SurfaceUv } from './Material';
+import { RoomSpec } from './RoomSpec';
+
+export const ROOM_DESIGN_VERSION = 10;
+
+export interface Vector3Data {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface FurnitureDesign {
+  type: string;
+  position: Vector3Data;
+  rotation: Vector3Data;
+  scale: Vector3Data;
+  params: FurnitureParams;
+  textureUrl: string | null;
+  partTextures: FurniturePartTextureDesign[];
+  uv: SurfaceUv;
+}
+
+export interface FurniturePartTextureDesign {
+  part: string;
+  textureUrl: string;
+}
+
+export interface WallTextureDesign {
+  wallIndex: number;
+  textureUrl: string;
+}
+
+export interface WallUvDesign {
+  wallIndex: number;
+  uv: SurfaceUv;
+}
+
+// A glTF/GLB file embedded as a data URL; furniture refers to it by id.
+export interface ImportedModelDesign {
+  id: string;
+  name: string;
+  data: string;
+}
+
+export interface LightingDesign {
+  direction: Vector3Data;
+  intensity: number;
+  shadowsEnabled: boolean;
+}
+
+export interface CameraDesign {
+  position: Vector3Data;
+  target: Vector3Data;
+}
+
+// A named viewpoint: camera position plus the point the orbit controls circle around.
+export interface CameraBookmark extends CameraDesign {
+  name: string;
+}
+
+export interface RoomDesign {
+  version: number;
+  name: string;
+  room: RoomSpec;
+  floorTextureUrl: string | null;
+  wallTextureUrl: string | null;
+  wallTextureOverrides: WallTextureDesign[];
+  floorUv: SurfaceUv;
+  wallUv: SurfaceUv;
+  wallUvOverrides: WallUvDesign[];
+  lighting: LightingDesign;
+  camera: CameraDesign;
+  bookmarks: CameraBookmark[];
+  models: ImportedModelDesign[];
+  furniture: FurnitureDesign[];
+}
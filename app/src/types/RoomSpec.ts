@@ -0,0 +1,54 @@
+export interface RoomPoint {
+  x: number;
+  z: number;
+}
+
+export type OpeningKind = 'window' | 'door';
+
+export interface WallOpeningSpec {
+  id: string;
+  kind: OpeningKind;
+  wallIndex: number;
+  offset: number;
+  width: number;
+  height: number;
+  sillHeight: number;
+}
+
+export interface RoomSpec {
+  height: number;
+  outline: RoomPoint[];
+  openings: WallOpeningSpec[];
+}
+
+export const MIN_ROOM_SIZE = 4;
+export const MIN_ROOM_HEIGHT = 2.4;
+
+export const DEFAULT_OPENING_SIZES: Record<OpeningKind, Pick<WallOpeningSpec, 'width' | 'height' | 'sillHeight'>> = {
+  window: { width: 2.5, height: 2, sillHeight: 1.5 },
+  door: { width: 2, height: 3.5, sillHeight: 0 }
+};
+
+export function rectangleOutline(width: number, depth: number): RoomPoint[] {
+  return [
+    { x: -width / 2, z: -depth / 2 },
+    { x: width / 2, z: -depth / 2 },
+    { x: width / 2, z: depth / 2 },
+    { x: -width / 2, z: depth / 2 }
+  ];
+}
+
+export function defaultRectangleOpenings(width: number, depth: number): WallOpeningSpec[] {
+  return [
+    { id: 'opening_0', kind: 'window', wallIndex: 0, offset: width / 2, width: 3, height: 2, sillHeight: 1.5 },
+    { id: 'opening_1', kind: 'window', wallIndex: 1, offset: depth / 2, width: 2.5, height: 2, sillHeight: 1.5 },
+    { id: 'opening_2', kind: 'door', wallIndex: 2, offset: width / 2, width: 2, height: 3.5, sillHeight: 0 },
+    { id: 'opening_3', kind: 'window', wallIndex: 3, offset: depth / 2, width: 2.5, height: 2, sillHeight: 1.5 }
+  ];
+}
+
+export const DEFAULT_ROOM_SPEC: RoomSpec = {
+  height: 5,
+  outline: rectangleOutline(20, 20),
+  openings: defaultRectangleOpenings(20, 20)
+};
@@ -0,0 +1,50 @@
+import * as THREE from 'three';
+
+// Overlay geometry (labels, guide lines) is drawn on top of the scene and never hidden by it.
+const OVERLAY_RENDER_ORDER = 999;
+
+export function createLabel(text: string, height = 0.12): THREE.Sprite {
+  const fontSize = 40;
+  const padding = 12;
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d')!;
+  context.font = `bold ${fontSize}px sans-serif`;
+  canvas.width = Math.ceil(context.measureText(text).width) + padding * 2;
+  canvas.height = fontSize + padding * 2;
+
+  context.fillStyle = 'rgba(0, 0, 0, 0.75)';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.font = `bold ${fontSize}px sans-serif`;
+  context.fillStyle = '#ffffff';
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillText(text, canvas.width / 2, canvas.height / 2);
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  const sprite = new THREE.Sprite(new THREE.SpriteMaterial({ map: texture, depthTest: false }));
+  sprite.scale.set(height * canvas.width / canvas.height, height, 1);
+  sprite.renderOrder = OVERLAY_RENDER_ORDER + 1;
+  return sprite;
+}
+
+export function createLines(points: THREE.Vector3[], color: THREE.ColorRepresentation): THREE.LineSegments {
+  const lines = new THREE.LineSegments(
+    new THREE.BufferGeometry().setFromPoints(points),
+    new THREE.LineBasicMaterial({ color, depthTest: false })
+  );
+  lines.renderOrder = OVERLAY_RENDER_ORDER;
+  return lines;
+}
+
+export function clearOverlay(group: THREE.Group) {
+  group.traverse(child => {
+    if (child instanceof THREE.LineSegments || child instanceof THREE.Mesh || child instanceof THREE.Sprite) {
+      child.geometry.dispose();
+      const material = child.material as THREE.Material & { map?: THREE.Texture | null };
+      material.map?.dispose();
+      material.dispose();
+    }
+  });
+  group.clear();
+}
@@ -0,0 +1,153 @@
+import * as THREE from 'three';
+
+import { CameraBookmark } from '../types/RoomDesign';
+import { RoomSpec } from '../types/RoomSpec';
+
+import { OrbitControls } from './OrbitControls';
+import { getRoomBounds, getWallSegments } from './RoomGeometry';
+import { RoomScene } from './RoomScene';
+import { EYE_HEIGHT, findEntryPoint } from './Walkthrough';
+
+const CORNER_INSET = 0.6;
+const TOP_VIEW_MAX_HEIGHT = 45;
+
+function toData(v: THREE.Vector3) {
+  return { x: v.x, y: v.y, z: v.z };
+}
+
+// Standard viewpoints derived from the room shape: front, every convex corner, straight down and in from the first door.
+export function createPresetViews(room: RoomSpec, fov: number): CameraBookmark[] {
+  const bounds = getRoomBounds(room.outline);
+  const segments = getWallSegments(room.outline);
+  const center = new THREE.Vector3((bounds.minX + bounds.maxX) / 2, 0, (bounds.minZ + bounds.maxZ) / 2);
+  const overviewHeight = room.height * 0.85;
+  const lookAt = center.clone().setY(0.8);
+  const views: CameraBookmark[] = [];
+
+  views.push({
+    name: 'Front',
+    position: toData(new THREE.Vector3(center.x, overviewHeight, bounds.maxZ - CORNER_INSET)),
+    target: toData(lookAt)
+  });
+
+  let corner = 0;
+  segments.forEach((segment, i) => {
+    const previous = segments[(i + segments.length - 1) % segments.length];
+    // Reflex corners point into the room and make poor vantage points.
+    if (segment.direction.dot(previous.inward) <= 0) return;
+    const bisector = previous.inward.clone().add(segment.inward).normalize();
+    const position = segment.start.clone().addScaledVector(bisector, CORNER_INSET).setY(overviewHeight);
+    views.push({ name: `Corner ${++corner}`, position: toData(position), target: toData(lookAt) });
+  });
+
+  const extent = Math.max(bounds.maxX - bounds.minX, bounds.maxZ - bounds.minZ);
+  const topHeight = Math.min(TOP_VIEW_MAX_HEIGHT, extent / 2 / Math.tan(THREE.MathUtils.degToRad(fov) / 2) * 1.1);
+  views.push({
+    name: 'Top',
+    // A sliver of offset keeps the orbit controls from flipping at the pole.
+    position: toData(center.clone().setY(topHeight).add(new THREE.Vector3(0, 0, 0.01))),
+    target: toData(center)
+  });
+
+  const entry = findEntryPoint(room);
+  if (entry) {
+    views.push({ name: 'Eye Level from Door', position: toData(entry.setY(EYE_HEIGHT)), target: toData(center.clone().setY(EYE_HEIGHT - 0.2)) });
+  }
+
+  return views;
+}
+
+// Named camera viewpoints saved with the design, plus eased flights between them and a tour that plays them in order.
+export class CameraBookmarks {
+  private roomScene: RoomScene;
+  private controls: OrbitControls;
+  private bookmarks: CameraBookmark[] = [];
+  private tourRun = 0;
+  private touring = false;
+
+  constructor(roomScene: RoomScene, controls: OrbitControls) {
+    this.roomScene = roomScene;
+    this.controls = controls;
+  }
+
+  public getBookmarks(): CameraBookmark[] {
+    return this.bookmarks;
+  }
+
+  public setBookmarks(bookmarks: CameraBookmark[]) {
+    this.stopTour();
+    this.bookmarks = bookmarks.map(bookmark => ({
+      name: bookmark.name,
+      position: { ...bookmark.position },
+      target: { ...bookmark.target }
+    }));
+  }
+
+  public getPresets(): CameraBookmark[] {
+    return createPresetViews(this.roomScene.getRoomSpec(), this.roomScene.getPerspectiveCamera().fov);
+  }
+
+  public find(name: string): CameraBookmark | null {
+    return this.bookmarks.find(bookmark => bookmark.name === name)
+      ?? this.getPresets().find(preset => preset.name === name)
+      ?? null;
+  }
+
+  // Saves the current orbit pose; an existing bookmark with the same name is overwritten.
+  public add(name: string): CameraBookmark {
+    const bookmark: CameraBookmark = {
+      name: name.trim() || `View ${this.bookmarks.length + 1}`,
+      position: toData(this.controls.getPosition()),
+      target: toData(this.controls.getTarget())
+    };
+    const index = this.bookmarks.findIndex(existing => existing.name === bookmark.name);
+    if (index >= 0) {
+      this.bookmarks[index] = bookmark;
+    } else {
+      this.bookmarks.push(bookmark);
+    }
+    return bookmark;
+  }
+
+  public remove(name: string): boolean {
+    const index = this.bookmarks.findIndex(bookmark => bookmark.name === name);
+    if (index < 0) return false;
+    this.bookmarks.splice(index, 1);
+    return true;
+  }
+
+  public goTo(view: CameraBookmark, duration: number): Promise<boolean> {
+    return this.controls.animateTo(view.position, view.target, duration);
+  }
+
+  public isTouring(): boolean {
+    return this.touring;
+  }
+
+  // Flies through the bookmarks in order, pausing at each; any camera input or stopTour ends it.
+  public async playTour(duration: number, hold: number): Promise<void> {
+    if (this.bookmarks.length === 0) return;
+    const run = ++this.tourRun;
+    this.touring = true;
+
+    try {
+      for (const bookmark of [...this.bookmarks]) {
+        const arrived = await this.goTo(bookmark, duration);
+        if (!arrived || run !== this.tourRun) return;
+        const pauseStart = performance.now();
+        await new Promise(resolve => setTimeout(resolve, hold * 1000));
+        // Moving the camera during the pause also counts as taking over.
+        if (run !== this.tourRun || this.controls.getLastInteraction() > pauseStart) return;
+      }
+    } finally {
+      if (run === this.tourRun) this.touring = false;
+    }
+  }
+
+  public stopTour() {
+    if (!this.touring) return;
+    this.tourRun++;
+    this.touring = false;
+    this.controls.cancelTransition();
+  }
+}
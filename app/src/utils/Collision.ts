@@ -0,0 +1,134 @@
+import * as THREE from 'three';
+
+import { FurnitureObject } from '../types/FurnitureObject';
+import { RoomPoint } from '../types/RoomSpec';
+
+import { isPointInOutline, segmentsIntersect } from './RoomGeometry';
+
+export interface Footprint {
+  corners: RoomPoint[];
+  minY: number;
+  maxY: number;
+}
+
+export interface FurnitureCollision {
+  furniture: FurnitureObject;
+  kind: 'furniture' | 'wall' | 'outside';
+  other: FurnitureObject | null;
+  wallIndex: number | null;
+}
+
+// Pieces may sit flush against each other or a wall; only real overlap counts.
+const CONTACT_TOLERANCE = 0.001;
+
+export function computeLocalBounds(group: THREE.Object3D): THREE.Box3 {
+  const bounds = new THREE.Box3();
+  group.updateMatrixWorld(true);
+  const toLocal = group.matrixWorld.clone().invert();
+
+  group.traverse(child => {
+    if (!(child instanceof THREE.Mesh)) return;
+    const geometry = child.geometry as THREE.BufferGeometry;
+    if (!geometry.boundingBox) geometry.computeBoundingBox();
+    const box = geometry.boundingBox!.clone().applyMatrix4(toLocal.clone().multiply(child.matrixWorld));
+    bounds.union(box);
+  });
+  return bounds;
+}
+
+export function computeFootprint(group: THREE.Object3D, position: THREE.Vector3 = group.position): Footprint {
+  const local = computeLocalBounds(group);
+  if (local.isEmpty()) {
+    return { corners: [], minY: 0, maxY: 0 };
+  }
+
+  const matrix = new THREE.Matrix4().compose(position, group.quaternion, group.scale);
+  const corners: THREE.Vector3[] = [];
+  for (const x of [local.min.x, local.max.x]) {
+    for (const y of [local.min.y, local.max.y]) {
+      for (const z of [local.min.z, local.max.z]) {
+        corners.push(new THREE.Vector3(x, y, z).applyMatrix4(matrix));
+      }
+    }
+  }
+
+  // Furniture only turns around Y, so the bottom four corners give the floor outline.
+  const base = [
+    new THREE.Vector3(local.min.x, local.min.y, local.min.z),
+    new THREE.Vector3(local.max.x, local.min.y, local.min.z),
+    new THREE.Vector3(local.max.x, local.min.y, local.max.z),
+    new THREE.Vector3(local.min.x, local.min.y, local.max.z)
+  ].map(corner => corner.applyMatrix4(matrix));
+
+  return {
+    corners: base.map(corner => ({ x: corner.x, z: corner.z })),
+    minY: Math.min(...corners.map(c => c.y)),
+    maxY: Math.max(...corners.map(c => c.y))
+  };
+}
+
+function projectOnto(corners: RoomPoint[], axis: RoomPoint): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  corners.forEach(p => {
+    const d = p.x * axis.x + p.z * axis.z;
+    min = Math.min(min, d);
+    max = Math.max(max, d);
+  });
+  return [min, max];
+}
+
+export function footprintsOverlap(a: Footprint, b: Footprint): boolean {
+  if (a.corners.length === 0 || b.corners.length === 0) return false;
+  if (a.maxY <= b.minY + CONTACT_TOLERANCE || b.maxY <= a.minY + CONTACT_TOLERANCE) return false;
+
+  // Separating axis test over the edge normals of both rectangles.
+  for (const corners of [a.corners, b.corners]) {
+    for (let i = 0; i < corners.length; i++) {
+      const p = corners[i];
+      const q = corners[(i + 1) % corners.length];
+      const axis = { x: -(q.z - p.z), z: q.x - p.x };
+      const length = Math.hypot(axis.x, axis.z);
+      if (length === 0) continue;
+      axis.x /= length;
+      axis.z /= length;
+
+      const [minA, maxA] = projectOnto(a.corners, axis);
+      const [minB, maxB] = projectOnto(b.corners, axis);
+      if (maxA <= minB + CONTACT_TOLERANCE || maxB <= minA + CONTACT_TOLERANCE) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+function shrinkFootprint(corners: RoomPoint[], amount: number): RoomPoint[] {
+  const cx = corners.reduce((sum, p) => sum + p.x, 0) / corners.length;
+  const cz = corners.reduce((sum, p) => sum + p.z, 0) / corners.length;
+  return corners.map(p => {
+    const dx = p.x - cx;
+    const dz = p.z - cz;
+    const length = Math.hypot(dx, dz);
+    const scale = length > amount ? (length - amount) / length : 0;
+    return { x: cx + dx * scale, z: cz + dz * scale };
+  });
+}
+
+// Returns the index of the first wall the footprint crosses, -1 if it lies outside the room, or null if it fits.
+export function findWallCollision(footprint: Footprint, outline: RoomPoint[]): number | null {
+  if (footprint.corners.length === 0) return null;
+  const corners = shrinkFootprint(footprint.corners, CONTACT_TOLERANCE);
+
+  for (let w = 0; w < outline.length; w++) {
+    const wallStart = outline[w];
+    const wallEnd = outline[(w + 1) % outline.length];
+    for (let i = 0; i < corners.length; i++) {
+      if (segmentsIntersect(corners[i], corners[(i + 1) % corners.length], wallStart, wallEnd)) {
+        return w;
+      }
+    }
+  }
+
+  return corners.every(p => isPointInOutline(p.x, p.z, outline)) ? null : -1;
+}
@@ -0,0 +1,105 @@
+export interface SceneCommand {
+  label: string;
+  execute(): void;
+  undo(): void;
+  merge?(next: SceneCommand): boolean;
+}
+
+export class CommandHistory {
+  private undoStack: SceneCommand[] = [];
+  private redoStack: SceneCommand[] = [];
+  private maxDepth: number;
+  private mergeOpen = false;
+  private onChange?: () => void;
+
+  constructor(maxDepth = 100, onChange?: () => void) {
+    this.maxDepth = maxDepth;
+    this.onChange = onChange;
+  }
+
+  public execute(command: SceneCommand) {
+    command.execute();
+    this.record(command);
+  }
+
+  public record(command: SceneCommand, mergeWithPrevious = false) {
+    const last = this.undoStack[this.undoStack.length - 1];
+    const merged = mergeWithPrevious && this.mergeOpen && !!last?.merge?.(command);
+
+    if (!merged) {
+      this.undoStack.push(command);
+      this.trim();
+    }
+
+    this.mergeOpen = mergeWithPrevious;
+    this.redoStack = [];
+    this.onChange?.();
+  }
+
+  public closeMerge() {
+    this.mergeOpen = false;
+  }
+
+  public undo(): boolean {
+    const command = this.undoStack.pop();
+    if (!command) return false;
+
+    command.undo();
+    this.redoStack.push(command);
+    this.mergeOpen = false;
+    console.log(`↩ Undo: ${command.label}`);
+    this.onChange?.();
+    return true;
+  }
+
+  public redo(): boolean {
+    const command = this.redoStack.pop();
+    if (!command) return false;
+
+    command.execute();
+    this.undoStack.push(command);
+    this.mergeOpen = false;
+    console.log(`↪ Redo: ${command.label}`);
+    this.onChange?.();
+    return true;
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  public getUndoLabel(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+  }
+
+  public getRedoLabel(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+  }
+
+  public getMaxDepth(): number {
+    return this.maxDepth;
+  }
+
+  public setMaxDepth(maxDepth: number) {
+    this.maxDepth = Math.max(1, Math.floor(maxDepth));
+    this.trim();
+    this.onChange?.();
+  }
+
+  public clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.mergeOpen = false;
+    this.onChange?.();
+  }
+
+  private trim() {
+    if (this.undoStack.length > this.maxDepth) {
+      this.undoStack.splice(0, this.undoStack.length - this.maxDepth);
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import { invoke, isTauri } from '@tauri-apps/api/core';
+import { open, save } from '@tauri-apps/plugin-dialog';
+
+import { RoomDesign } from '../types/RoomDesign';
+
+import { DesignSerializer } from './DesignSerializer';
+import { ExportedFile } from './SceneExporter';
+
+const DESIGN_FILTERS = [{ name: 'Room Design', extensions: ['json'] }];
+
+export interface OpenedDesign {
+  design: RoomDesign;
+  path: string | null;
+}
+
+export class DesignFileManager {
+  private serializer: DesignSerializer;
+  private currentPath: string | null = null;
+  private dirty = false;
+  private recentFiles: string[] = [];
+  private onStateChange?: () => void;
+
+  constructor(serializer: DesignSerializer, onStateChange?: () => void) {
+    this.serializer = serializer;
+    this.onStateChange = onStateChange;
+  }
+
+  public isNative(): boolean {
+    return isTauri();
+  }
+
+  public getCurrentPath(): string | null {
+    return this.currentPath;
+  }
+
+  public getRecentFiles(): string[] {
+    return this.recentFiles;
+  }
+
+  public isDirty(): boolean {
+    return this.dirty;
+  }
+
+  public markDirty() {
+    if (this.dirty) return;
+    this.dirty = true;
+    this.onStateChange?.();
+  }
+
+  public markClean() {
+    this.dirty = false;
+    this.onStateChange?.();
+  }
+
+  public async loadRecentFiles() {
+    if (!this.isNative()) return;
+    this.recentFiles = await invoke<string[]>('get_recent_files');
+    this.onStateChange?.();
+  }
+
+  public async clearRecentFiles() {
+    if (!this.isNative()) return;
+    await invoke('clear_recent_files');
+    this.recentFiles = [];
+    this.onStateChange?.();
+  }
+
+  public async open(path?: string): Promise<OpenedDesign | null> {
+    if (!this.isNative()) {
+      const json = await this.pickBrowserFile();
+      if (json === null) return null;
+      return { design: this.serializer.parse(json), path: null };
+    }
+
+    const targetPath = path ?? await open({ multiple: false, directory: false, filters: DESIGN_FILTERS });
+    if (!targetPath) return null;
+
+    const json = await invoke<string>('read_design_file', { path: targetPath });
+    return { design: this.serializer.parse(json), path: targetPath };
+  }
+
+  // Called once an opened design is actually in the scene, so a failed load never leaves saves pointing at the file.
+  public async commitOpen(path: string | null) {
+    this.currentPath = path;
+    if (path) {
+      await this.rememberRecentFile(path);
+    }
+  }
+
+  public async save(design: RoomDesign): Promise<boolean> {
+    if (!this.currentPath) {
+      return this.saveAs(design);
+    }
+    await this.writeDesign(this.currentPath, design);
+    return true;
+  }
+
+  public async saveAs(design: RoomDesign): Promise<boolean> {
+    if (!this.isNative()) {
+      this.downloadDesign(design);
+      this.markClean();
+      return true;
+    }
+
+    const path = await save({
+      defaultPath: `${design.name || 'room-design'}.json`,
+      filters: DESIGN_FILTERS
+    });
+    if (!path) return false;
+
+    await this.writeDesign(path, design);
+    return true;
+  }
+
+  // The first file is the main one; companions (materials, textures) are written next to it.
+  public async exportFiles(files: ExportedFile[], filterName: string): Promise<boolean> {
+    const [main, ...companions] = files;
+    if (!main) return false;
+
+    if (!this.isNative()) {
+      files.forEach(file => this.downloadBlob(file.data, file.name));
+      return true;
+    }
+
+    const extension = main.name.split('.').pop() ?? '';
+    const path = await save({
+      defaultPath: main.name,
+      filters: [{ name: filterName, extensions: [extension] }]
+    });
+    if (!path) return false;
+
+    const directory = path.slice(0, Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\')) + 1);
+    await this.writeBinary(path, main.data);
+    for (const companion of companions) {
+      await this.writeBinary(`${directory}${companion.name}`, companion.data);
+    }
+    return true;
+  }
+
+  // Sent as a raw request body; a JSON number array is far too slow for multi-megabyte images.
+  private async writeBinary(path: string, data: Blob) {
+    const contents = new Uint8Array(await data.arrayBuffer());
+    await invoke('write_binary_file', contents, { headers: { path: encodeURIComponent(path) } });
+  }
+
+  private async writeDesign(path: string, design: RoomDesign) {
+    await invoke('write_design_file', { path, contents: this.serializer.serialize(design) });
+    this.currentPath = path;
+    await this.rememberRecentFile(path);
+    this.markClean();
+  }
+
+  private async rememberRecentFile(path: string) {
+    this.recentFiles = await invoke<string[]>('add_recent_file', { path });
+  }
+
+  private downloadDesign(design: RoomDesign) {
+    const blob = new Blob([this.serializer.serialize(design)], { type: 'application/json' });
+    this.downloadBlob(blob, `${design.name || 'room-design'}.json`);
+  }
+
+  private downloadBlob(blob: Blob, fileName: string) {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  private pickBrowserFile(): Promise<string | null> {
+    return new Promise((resolve) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.json,application/json';
+      input.addEventListener('change', async () => {
+        const file = input.files?.[0];
+        resolve(file ? await file.text() : null);
+      });
+      input.addEventListener('cancel', () => resolve(null));
+      input.click();
+    });
+  }
+}
@@ -0,0 +1,166 @@
+import { LEGACY_PROCEDURAL_MATERIALS } from '../config/materials';
+import { DEFAULT_SURFACE_UV, MATERIAL_SCHEME } from '../types/Material';
+import { ROOM_DESIGN_VERSION, RoomDesign } from '../types/RoomDesign';
+import { defaultRectangleOpenings, rectangleOutline } from '../types/RoomSpec';
+
+import { InvalidRoomError, validateRoomSpec } from './RoomGeometry';
+
+export type DesignMigration = (design: any) => any;
+
+export class DesignFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DesignFormatError';
+  }
+}
+
+// Before the material library a procedural:// texture was tiled at fixed repeats; the library entry that replaced
+// it carries a matching tile size, so old designs keep their look.
+function isVector3Data(value: any): boolean {
+  return Number.isFinite(value?.x) && Number.isFinite(value?.y) && Number.isFinite(value?.z);
+}
+
+function migrateLegacyTexture(url: string | null): string | null {
+  const pattern = url?.startsWith('procedural://') ? url.slice('procedural://'.length) : null;
+  const id = pattern ? LEGACY_PROCEDURAL_MATERIALS[pattern] : undefined;
+  return id ? `${MATERIAL_SCHEME}${id}` : url;
+}
+
+export class DesignSerializer {
+  private migrations = new Map<number, DesignMigration>();
+
+  constructor() {
+    this.registerMigration(1, design => ({ ...design, room: { width: 20, depth: 20, height: 5 } }));
+    this.registerMigration(2, design => {
+      const { width, depth, height } = design.room;
+      return {
+        ...design,
+        room: {
+          height,
+          outline: rectangleOutline(width, depth),
+          openings: defaultRectangleOpenings(width, depth)
+        }
+      };
+    });
+    this.registerMigration(3, design => ({
+      ...design,
+      room: {
+        ...design.room,
+        openings: design.room.openings.map((opening: any, i: number) => ({ ...opening, id: `opening_${i}` }))
+      }
+    }));
+    this.registerMigration(4, design => ({ ...design, wallTextureOverrides: [] }));
+    this.registerMigration(5, design => ({ ...design, models: [] }));
+    this.registerMigration(6, design => ({
+      ...design,
+      furniture: design.furniture.map((item: any) => ({ ...item, params: {} }))
+    }));
+    this.registerMigration(7, design => ({ ...design, bookmarks: [] }));
+    this.registerMigration(8, design => ({
+      ...design,
+      floorTextureUrl: migrateLegacyTexture(design.floorTextureUrl),
+      wallTextureUrl: migrateLegacyTexture(design.wallTextureUrl),
+      wallTextureOverrides: design.wallTextureOverrides.map((override: any) => ({
+        ...override,
+        textureUrl: migrateLegacyTexture(override.textureUrl)
+      })),
+      furniture: design.furniture.map((item: any) => ({
+        ...item,
+        textureUrl: migrateLegacyTexture(item.textureUrl),
+        partTextures: []
+      }))
+    }));
+    this.registerMigration(9, design => ({
+      ...design,
+      floorUv: { ...DEFAULT_SURFACE_UV },
+      wallUv: { ...DEFAULT_SURFACE_UV },
+      wallUvOverrides: [],
+      furniture: design.furniture.map((item: any) => ({ ...item, uv: { ...DEFAULT_SURFACE_UV } }))
+    }));
+  }
+
+  public registerMigration(fromVersion: number, migrate: DesignMigration) {
+    if (fromVersion >= ROOM_DESIGN_VERSION) {
+      throw new Error(`Migration from version ${fromVersion} would never run (current version is ${ROOM_DESIGN_VERSION})`);
+    }
+    this.migrations.set(fromVersion, migrate);
+  }
+
+  public serialize(design: RoomDesign): string {
+    return JSON.stringify({ ...design, version: ROOM_DESIGN_VERSION }, null, 2);
+  }
+
+  public parse(json: string): RoomDesign {
+    let data: any;
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
+      throw new DesignFormatError(`Design file is not valid JSON: ${(error as Error).message}`);
+    }
+
+    return this.migrate(data);
+  }
+
+  public migrate(data: any): RoomDesign {
+    if (!data || typeof data !== 'object' || typeof data.version !== 'number') {
+      throw new DesignFormatError('Design file has no version field');
+    }
+
+    if (data.version > ROOM_DESIGN_VERSION) {
+      throw new DesignFormatError(
+        `Design was saved with a newer format (v${data.version}), this app supports up to v${ROOM_DESIGN_VERSION}`
+      );
+    }
+
+    let design = data;
+    while (design.version < ROOM_DESIGN_VERSION) {
+      const migrate = this.migrations.get(design.version);
+      if (!migrate) {
+        throw new DesignFormatError(`No migration registered for design version ${design.version}`);
+      }
+      const fromVersion = design.version;
+      design = { ...migrate(design), version: fromVersion + 1 };
+      console.log(`🔁 Migrated design from v${fromVersion} to v${design.version}`);
+    }
+
+    this.validate(design);
+    return design as RoomDesign;
+  }
+
+  // Everything loadDesign relies on is checked here, so a broken file is refused before the scene is touched.
+  private validate(design: any) {
+    if (!Array.isArray(design.furniture)) {
+      throw new DesignFormatError('Design file has no furniture list');
+    }
+    for (const list of ['wallTextureOverrides', 'wallUvOverrides', 'bookmarks', 'models']) {
+      if (!Array.isArray(design[list])) {
+        throw new DesignFormatError(`Design file has no ${list} list`);
+      }
+    }
+
+    if (!design.room || typeof design.room !== 'object' || !Array.isArray(design.room.openings)) {
+      throw new DesignFormatError('Design file has no room');
+    }
+    try {
+      validateRoomSpec(design.room);
+    } catch (error) {
+      if (error instanceof InvalidRoomError) {
+        throw new DesignFormatError(`Design file has an invalid room: ${error.message}`);
+      }
+      throw error;
+    }
+
+    if (!design.floorUv?.offset || !design.wallUv?.offset) {
+      throw new DesignFormatError('Design file has no surface tiling');
+    }
+
+    const { lighting, camera } = design;
+    if (!isVector3Data(lighting?.direction) || !Number.isFinite(lighting.intensity) ||
+        typeof lighting.shadowsEnabled !== 'boolean') {
+      throw new DesignFormatError('Design file has invalid lighting settings');
+    }
+    if (!isVector3Data(camera?.position) || !isVector3Data(camera?.target)) {
+      throw new DesignFormatError('Design file has an invalid camera');
+    }
+  }
+}
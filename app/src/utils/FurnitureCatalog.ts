@@ -0,0 +1,56 @@
+import { BUILT_IN_FURNITURE } from '../config/furniture';
+import { FurnitureDefinition, FurnitureParams } from '../types/FurnitureCatalog';
+
+// Fills in defaults and keeps saved or edited values inside the ranges the builder supports.
+export function resolveFurnitureParams(definition: FurnitureDefinition, params: FurnitureParams = {}): FurnitureParams {
+  const resolved: FurnitureParams = {};
+  (definition.parameters ?? []).forEach(parameter => {
+    const value = params[parameter.key];
+    let result = typeof value === 'number' && Number.isFinite(value) ? value : parameter.default;
+    if (parameter.kind === 'count') result = Math.round(result);
+    resolved[parameter.key] = Math.min(parameter.max, Math.max(parameter.min, result));
+  });
+  return resolved;
+}
+
+export class FurnitureCatalog {
+  private definitions = new Map<string, FurnitureDefinition>();
+
+  constructor(definitions: FurnitureDefinition[] = []) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  public register(definition: FurnitureDefinition) {
+    if (this.definitions.has(definition.id)) {
+      throw new Error(`Furniture "${definition.id}" is already registered`);
+    }
+    this.definitions.set(definition.id, definition);
+  }
+
+  public unregister(id: string): boolean {
+    return this.definitions.delete(id);
+  }
+
+  public has(id: string): boolean {
+    return this.definitions.has(id);
+  }
+
+  public get(id: string): FurnitureDefinition {
+    const definition = this.definitions.get(id);
+    if (!definition) {
+      throw new Error(`Unknown furniture type: ${id}`);
+    }
+    return definition;
+  }
+
+  public list(category?: string): FurnitureDefinition[] {
+    const definitions = [...this.definitions.values()];
+    return category ? definitions.filter(d => d.category === category) : definitions;
+  }
+
+  public getCategories(): string[] {
+    return [...new Set(this.list().map(d => d.category))];
+  }
+}
+
+export const furnitureCatalog = new FurnitureCatalog(BUILT_IN_FURNITURE);
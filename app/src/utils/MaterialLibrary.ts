@@ -0,0 +1,273 @@
+import * as THREE from 'three';
+
+import { MATERIAL_LIBRARY } from '../config/materials';
+import {
+  DEFAULT_SURFACE_UV,
+  MATERIAL_CHANNELS,
+  MATERIAL_SCHEME,
+  MaterialChannel,
+  MaterialDefinition,
+  ProceduralPattern,
+  SurfaceUv
+} from '../types/Material';
+
+import { createProceduralTextureSet, deriveTextureSet, isProceduralPattern } from './ProceduralTextures';
+import { TextureCache } from './TextureCache';
+
+export type MaterialMaps = Partial<Record<MaterialChannel, THREE.Texture>>;
+
+// A loaded material ready to put on a surface: a texture per channel plus the scalar factors.
+export interface MaterialSet {
+  // What designs store: a material:// reference or a texture URL; null for the built-in defaults.
+  ref: string | null;
+  maps: MaterialMaps;
+  // Plain textures leave the surface's own colour, roughness and metalness alone.
+  color?: number;
+  roughness?: number;
+  metalness?: number;
+  normalScale: number;
+  tileSize: THREE.Vector2;
+}
+
+export interface MaterialSnapshot {
+  maps: Record<MaterialChannel, THREE.Texture | null>;
+  color: THREE.Color;
+  roughness: number;
+  metalness: number;
+  normalScale: THREE.Vector2;
+}
+
+export const DEFAULT_TILE_SIZE = new THREE.Vector2(1, 1);
+
+export function materialRef(id: string): string {
+  return `${MATERIAL_SCHEME}${id}`;
+}
+
+export function cloneSurfaceUv(uv: SurfaceUv): SurfaceUv {
+  return {
+    ...uv,
+    tileSize: uv.tileSize ? { ...uv.tileSize } : null,
+    offset: { ...uv.offset }
+  };
+}
+
+// Maps the surface's 0..1 UVs to tile repeats. Working in metres keeps the rotation free of shear on long, thin
+// surfaces, which three's own offset/repeat/rotation cannot do because it scales after rotating.
+export function surfaceUvMatrix(size: THREE.Vector2, tileSize: THREE.Vector2, uv: SurfaceUv): THREE.Matrix3 {
+  return new THREE.Matrix3()
+    .makeScale(size.x * (uv.mirrorX ? -1 : 1), size.y * (uv.mirrorY ? -1 : 1))
+    .premultiply(new THREE.Matrix3().makeRotation(-THREE.MathUtils.degToRad(uv.rotation)))
+    .premultiply(new THREE.Matrix3().makeTranslation(uv.offset.x, uv.offset.y))
+    .premultiply(new THREE.Matrix3().makeScale(1 / tileSize.x, 1 / tileSize.y));
+}
+
+// Sets every channel at once; channels the set has no texture for are cleared. Size is the surface's extent in metres.
+export function applyMaterialSet(
+  material: THREE.MeshStandardMaterial,
+  set: MaterialSet,
+  size: THREE.Vector2,
+  uv: SurfaceUv = DEFAULT_SURFACE_UV
+) {
+  const tileSize = uv.tileSize ? new THREE.Vector2(uv.tileSize.width, uv.tileSize.height) : set.tileSize;
+  const transform = surfaceUvMatrix(size, tileSize, uv);
+  MATERIAL_CHANNELS.forEach(channel => {
+    const source = set.maps[channel];
+    const texture = source ? source.clone() : null;
+    if (texture) {
+      texture.matrixAutoUpdate = false;
+      texture.matrix.copy(transform);
+    }
+    material[channel] = texture;
+  });
+  if (set.color !== undefined) material.color.setHex(set.color);
+  if (set.roughness !== undefined) material.roughness = set.roughness;
+  if (set.metalness !== undefined) material.metalness = set.metalness;
+  material.normalScale.setScalar(set.normalScale);
+  material.needsUpdate = true;
+}
+
+// Exporters only understand offset/repeat/rotation, so the surface tiling is moved into the mesh's own UVs and the
+// textures go back to an identity transform. Meant for export copies: the geometry is cloned, the material is not.
+export function bakeSurfaceUv(mesh: THREE.Mesh) {
+  const material = mesh.material;
+  if (!(material instanceof THREE.MeshStandardMaterial)) return;
+  const channels = MATERIAL_CHANNELS.filter(channel => material[channel] && !material[channel]!.matrixAutoUpdate);
+  if (channels.length === 0 || !mesh.geometry.getAttribute('uv')) return;
+
+  const transform = material[channels[0]]!.matrix.clone();
+  mesh.geometry = mesh.geometry.clone();
+  const uv = mesh.geometry.getAttribute('uv');
+  const point = new THREE.Vector2();
+  for (let i = 0; i < uv.count; i++) {
+    point.set(uv.getX(i), uv.getY(i)).applyMatrix3(transform);
+    uv.setXY(i, point.x, point.y);
+  }
+  uv.needsUpdate = true;
+
+  channels.forEach(channel => {
+    const texture = material[channel]!.clone();
+    texture.matrixAutoUpdate = true;
+    texture.matrix.identity();
+    material[channel] = texture;
+  });
+}
+
+export function captureMaterial(material: THREE.MeshStandardMaterial): MaterialSnapshot {
+  const maps = {} as Record<MaterialChannel, THREE.Texture | null>;
+  MATERIAL_CHANNELS.forEach(channel => {
+    maps[channel] = material[channel];
+  });
+  return {
+    maps,
+    color: material.color.clone(),
+    roughness: material.roughness,
+    metalness: material.metalness,
+    normalScale: material.normalScale.clone()
+  };
+}
+
+export function restoreMaterial(material: THREE.MeshStandardMaterial, snapshot: MaterialSnapshot) {
+  MATERIAL_CHANNELS.forEach(channel => {
+    material[channel] = snapshot.maps[channel];
+  });
+  material.color.copy(snapshot.color);
+  material.roughness = snapshot.roughness;
+  material.metalness = snapshot.metalness;
+  material.normalScale.copy(snapshot.normalScale);
+  material.needsUpdate = true;
+}
+
+export class MaterialLibrary {
+  private definitions = new Map<string, MaterialDefinition>();
+  private loader: THREE.TextureLoader;
+  private textureCache: TextureCache;
+  private maps = new Map<string, Promise<MaterialMaps>>();
+  private procedural = new Map<ProceduralPattern, MaterialMaps>();
+
+  constructor(definitions: MaterialDefinition[] = MATERIAL_LIBRARY) {
+    definitions.forEach(definition => this.definitions.set(definition.id, definition));
+    this.loader = new THREE.TextureLoader();
+    this.loader.setCrossOrigin('anonymous');
+    this.textureCache = new TextureCache();
+  }
+
+  public getTextureCache(): TextureCache {
+    return this.textureCache;
+  }
+
+  public list(): MaterialDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  public get(id: string): MaterialDefinition | null {
+    return this.definitions.get(id) ?? null;
+  }
+
+  // Synchronous, for the built-in defaults that exist before anything can be awaited.
+  public createProcedural(id: string): MaterialSet {
+    const definition = this.definitions.get(id);
+    if (!definition?.procedural || definition.maps) {
+      throw new Error(`Material ${id} is not a purely procedural material`);
+    }
+    return this.toSet(definition, this.proceduralMaps(definition));
+  }
+
+  // Resolves a material:// reference to the full texture set, or a plain texture URL to an albedo-only set.
+  public async load(ref: string): Promise<MaterialSet> {
+    if (ref.startsWith(MATERIAL_SCHEME)) {
+      const id = ref.slice(MATERIAL_SCHEME.length);
+      const definition = this.definitions.get(id);
+      if (!definition) {
+        throw new Error(`Unknown material: ${id}`);
+      }
+      const maps = await this.cached(ref, () => this.loadDefinitionMaps(definition));
+      return { ...this.toSet(definition, maps), ref };
+    }
+
+    const maps = await this.cached(ref, async () => ({ map: await this.loadTexture(ref, THREE.SRGBColorSpace) }));
+    return { ref, maps, normalScale: 1, tileSize: DEFAULT_TILE_SIZE.clone() };
+  }
+
+  private toSet(definition: MaterialDefinition, maps: MaterialMaps): MaterialSet {
+    return {
+      ref: materialRef(definition.id),
+      maps,
+      color: definition.color,
+      roughness: definition.roughness,
+      metalness: definition.metalness,
+      normalScale: definition.normalScale,
+      tileSize: new THREE.Vector2(definition.tileSize.width, definition.tileSize.height)
+    };
+  }
+
+  private cached(key: string, load: () => Promise<MaterialMaps>): Promise<MaterialMaps> {
+    let maps = this.maps.get(key);
+    if (!maps) {
+      maps = load();
+      // A failed download should be retried next time rather than cached.
+      maps.catch(() => this.maps.delete(key));
+      this.maps.set(key, maps);
+    }
+    return maps;
+  }
+
+  private proceduralMaps(definition: MaterialDefinition): MaterialMaps {
+    return definition.procedural ? this.patternMaps(definition.procedural) : {};
+  }
+
+  // Generated once per pattern; callers get a copy so image maps can be layered on top.
+  private patternMaps(pattern: ProceduralPattern): MaterialMaps {
+    let maps = this.procedural.get(pattern);
+    if (!maps) {
+      const set = createProceduralTextureSet(pattern);
+      maps = {
+        map: set.map,
+        normalMap: set.normalMap,
+        aoMap: set.ormMap,
+        roughnessMap: set.ormMap,
+        metalnessMap: set.ormMap
+      };
+      this.procedural.set(pattern, maps);
+    }
+    return { ...maps };
+  }
+
+  private async loadDefinitionMaps(definition: MaterialDefinition): Promise<MaterialMaps> {
+    const maps = this.proceduralMaps(definition);
+    for (const [channel, url] of Object.entries(definition.maps ?? {}) as [MaterialChannel, string][]) {
+      maps[channel] = await this.loadTexture(url, channel === 'map' ? THREE.SRGBColorSpace : THREE.NoColorSpace);
+    }
+    if (maps.map && MATERIAL_CHANNELS.some(channel => !maps[channel])) {
+      const derived = deriveTextureSet(maps.map.image as CanvasImageSource);
+      maps.normalMap ??= derived.normalMap;
+      maps.aoMap ??= derived.ormMap;
+      maps.roughnessMap ??= derived.ormMap;
+      maps.metalnessMap ??= derived.ormMap;
+    }
+    return maps;
+  }
+
+  private async loadTexture(url: string, colorSpace: THREE.ColorSpace): Promise<THREE.Texture> {
+    let texture: THREE.Texture;
+    if (url.startsWith('procedural://')) {
+      const pattern = url.replace('procedural://', '');
+      if (!isProceduralPattern(pattern)) {
+        throw new Error(`Unknown procedural texture type: ${pattern}`);
+      }
+      // A clone shares the generated image, so only the colour space below is its own.
+      texture = this.patternMaps(pattern).map!.clone();
+    } else {
+      texture = await this.loader.loadAsync(await this.textureCache.resolve(url), progress => {
+        if (progress.total > 0) {
+          console.log(`Loading progress: ${(progress.loaded / progress.total * 100).toFixed(0)}%`);
+        }
+      });
+      console.log('✅ Texture loaded successfully!');
+    }
+
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    texture.colorSpace = colorSpace;
+    return texture;
+  }
+}
@@ -0,0 +1,228 @@
+import * as THREE from 'three';
+
+import { FurnitureObject } from '../types/FurnitureObject';
+
+import { clearOverlay, createLabel, createLines } from './Annotations';
+import { computeFootprint, computeLocalBounds } from './Collision';
+import { WallSegment } from './RoomGeometry';
+import { RoomScene } from './RoomScene';
+import { UnitSystem, formatLength } from './Units';
+
+export interface Measurement {
+  start: THREE.Vector3;
+  end: THREE.Vector3;
+  distance: number;
+}
+
+export interface WallClearance {
+  from: THREE.Vector3;
+  to: THREE.Vector3;
+  distance: number;
+  wallIndex: number;
+}
+
+const MEASURE_COLOR = 0xffcc00;
+const DIMENSION_COLOR = 0x00e676;
+const CLEARANCE_COLOR = 0xff7043;
+const GUIDE_LIFT = 0.02;
+
+// Distance along a floor-plane ray to a wall segment, or null when the ray misses it.
+function rayToWall(origin: THREE.Vector3, direction: THREE.Vector3, segment: WallSegment): number | null {
+  const edge = segment.end.clone().sub(segment.start);
+  const denominator = direction.x * edge.z - direction.z * edge.x;
+  if (Math.abs(denominator) < 1e-9) return null;
+
+  const toStart = segment.start.clone().sub(origin);
+  const t = (toStart.x * edge.z - toStart.z * edge.x) / denominator;
+  const u = (toStart.x * direction.z - toStart.z * direction.x) / denominator;
+  return t >= 0 && u >= 0 && u <= 1 ? t : null;
+}
+
+// Clearance from the middle of each footprint side straight out to the nearest wall it faces.
+export function findWallClearances(furniture: FurnitureObject, segments: WallSegment[]): WallClearance[] {
+  const corners = computeFootprint(furniture.group).corners;
+  if (corners.length === 0) return [];
+
+  const center = new THREE.Vector3(
+    corners.reduce((sum, p) => sum + p.x, 0) / corners.length,
+    0,
+    corners.reduce((sum, p) => sum + p.z, 0) / corners.length
+  );
+
+  const clearances: WallClearance[] = [];
+  for (let i = 0; i < corners.length; i++) {
+    const p = corners[i];
+    const q = corners[(i + 1) % corners.length];
+    const from = new THREE.Vector3((p.x + q.x) / 2, 0, (p.z + q.z) / 2);
+    const direction = from.clone().sub(center).normalize();
+    if (direction.lengthSq() === 0) continue;
+
+    let nearest: WallClearance | null = null;
+    for (const segment of segments) {
+      const distance = rayToWall(from, direction, segment);
+      if (distance !== null && (!nearest || distance < nearest.distance)) {
+        nearest = {
+          from,
+          to: from.clone().addScaledVector(direction, distance),
+          distance,
+          wallIndex: segment.index
+        };
+      }
+    }
+    if (nearest) clearances.push(nearest);
+  }
+  return clearances;
+}
+
+export class MeasurementTool {
+  private roomScene: RoomScene;
+  private overlay: THREE.Group;
+  private measureLayer: THREE.Group;
+  private dimensionLayer: THREE.Group;
+  private units: UnitSystem = 'metric';
+  private active = false;
+  private dimensionsVisible = true;
+  private pending: THREE.Vector3 | null = null;
+  private measurement: Measurement | null = null;
+  private target: FurnitureObject | null = null;
+
+  constructor(roomScene: RoomScene) {
+    this.roomScene = roomScene;
+
+    this.measureLayer = new THREE.Group();
+    this.dimensionLayer = new THREE.Group();
+    this.overlay = new THREE.Group();
+    this.overlay.name = 'measurements';
+    this.overlay.add(this.measureLayer, this.dimensionLayer);
+    roomScene.addHelper(this.overlay);
+
+    // Keep the dimension lines attached to the piece while it is moved, rotated or scaled.
+    roomScene.onChange(() => {
+      if (this.target) this.drawDimensions();
+    });
+  }
+
+  public isActive(): boolean {
+    return this.active;
+  }
+
+  public setActive(active: boolean) {
+    this.active = active;
+    if (!active && this.pending) {
+      this.pending = null;
+      this.drawMeasurement();
+    }
+  }
+
+  public getUnits(): UnitSystem {
+    return this.units;
+  }
+
+  public setUnits(units: UnitSystem) {
+    this.units = units;
+    this.drawMeasurement();
+    this.drawDimensions();
+  }
+
+  public format(meters: number): string {
+    return formatLength(meters, this.units);
+  }
+
+  public getMeasurement(): Measurement | null {
+    return this.measurement;
+  }
+
+  // The first click sets the start point, the second completes the measurement, a third starts over.
+  public pick(mouseX: number, mouseY: number): Measurement | null {
+    const point = this.roomScene.pickSurfacePoint(mouseX, mouseY);
+    if (!point) return null;
+
+    if (!this.pending) {
+      this.pending = point;
+      this.measurement = null;
+      this.drawMeasurement();
+      return null;
+    }
+
+    this.measurement = { start: this.pending, end: point, distance: this.pending.distanceTo(point) };
+    this.pending = null;
+    this.drawMeasurement();
+    console.log(`📏 Measured ${this.format(this.measurement.distance)}`);
+    return this.measurement;
+  }
+
+  public clearMeasurement() {
+    this.pending = null;
+    this.measurement = null;
+    this.drawMeasurement();
+  }
+
+  public setDimensionsVisible(visible: boolean) {
+    this.dimensionsVisible = visible;
+    this.drawDimensions();
+  }
+
+  public setTarget(furniture: FurnitureObject | null) {
+    this.target = furniture;
+    this.drawDimensions();
+  }
+
+  public dispose() {
+    clearOverlay(this.measureLayer);
+    clearOverlay(this.dimensionLayer);
+    this.roomScene.removeHelper(this.overlay);
+  }
+
+  private drawMeasurement() {
+    clearOverlay(this.measureLayer);
+
+    const points = this.measurement ? [this.measurement.start, this.measurement.end] : this.pending ? [this.pending] : [];
+    points.forEach(point => {
+      const marker = new THREE.Mesh(
+        new THREE.SphereGeometry(0.03, 12, 8),
+        new THREE.MeshBasicMaterial({ color: MEASURE_COLOR, depthTest: false })
+      );
+      marker.position.copy(point);
+      marker.renderOrder = 1000;
+      this.measureLayer.add(marker);
+    });
+
+    if (this.measurement) {
+      const { start, end, distance } = this.measurement;
+      this.measureLayer.add(createLines([start, end], MEASURE_COLOR));
+      this.addLabel(this.measureLayer, start.clone().lerp(end, 0.5), distance);
+    }
+  }
+
+  private drawDimensions() {
+    clearOverlay(this.dimensionLayer);
+    if (!this.target || !this.dimensionsVisible || !this.target.group.parent) return;
+
+    const group = this.target.group;
+    const local = computeLocalBounds(group);
+    if (local.isEmpty()) return;
+
+    // Overall size along the piece's own axes, drawn on the top front and side edges and a front corner.
+    const toWorld = (x: number, y: number, z: number) => new THREE.Vector3(x, y, z).applyMatrix4(group.matrixWorld);
+    const { min, max } = local;
+    const edges = [
+      [toWorld(min.x, max.y, max.z), toWorld(max.x, max.y, max.z)],
+      [toWorld(max.x, max.y, min.z), toWorld(max.x, max.y, max.z)],
+      [toWorld(min.x, min.y, max.z), toWorld(min.x, max.y, max.z)]
+    ];
+    this.dimensionLayer.add(createLines(edges.flat(), DIMENSION_COLOR));
+    edges.forEach(([start, end]) => this.addLabel(this.dimensionLayer, start.clone().lerp(end, 0.5), start.distanceTo(end)));
+
+    const clearances = findWallClearances(this.target, this.roomScene.getWallSegments());
+    if (clearances.length === 0) return;
+    const lifted = (point: THREE.Vector3) => point.clone().setY(GUIDE_LIFT);
+    this.dimensionLayer.add(createLines(clearances.flatMap(c => [lifted(c.from), lifted(c.to)]), CLEARANCE_COLOR));
+    clearances.forEach(c => this.addLabel(this.dimensionLayer, lifted(c.from).lerp(c.to, 0.5).setY(0.1), c.distance));
+  }
+
+  private addLabel(layer: THREE.Group, position: THREE.Vector3, meters: number) {
+    const label = createLabel(this.format(meters));
+    label.position.copy(position);
+    layer.add(label);
+  }
+}
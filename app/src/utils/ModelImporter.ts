@@ -0,0 +1,159 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+
+import { FurnitureDefinition } from '../types/FurnitureCatalog';
+import { ImportedModelDesign } from '../types/RoomDesign';
+
+import { FurnitureCatalog } from './FurnitureCatalog';
+
+export const IMPORTED_MODEL_CATEGORY = 'Imported';
+
+// glTF is specified in metres, but plenty of exporters write centimetres or millimetres.
+const UNIT_SCALES = [1, 0.01, 0.001];
+const MAX_FURNITURE_SIZE = 6;
+const MIN_FURNITURE_SIZE = 0.05;
+const FALLBACK_FURNITURE_SIZE = 1;
+
+export class ModelImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelImportError';
+  }
+}
+
+export function normalizedModelScale(size: THREE.Vector3): number {
+  const largest = Math.max(size.x, size.y, size.z);
+  if (largest <= 0) {
+    throw new ModelImportError('Model has no visible geometry');
+  }
+
+  const unitScale = UNIT_SCALES.find(scale => largest * scale <= MAX_FURNITURE_SIZE);
+  if (unitScale !== undefined && largest * unitScale >= MIN_FURNITURE_SIZE) {
+    return unitScale;
+  }
+  return FALLBACK_FURNITURE_SIZE / largest;
+}
+
+export class ModelImporter {
+  private catalog: FurnitureCatalog;
+  private loader = new GLTFLoader();
+  private sources = new Map<string, ImportedModelDesign>();
+
+  constructor(catalog: FurnitureCatalog) {
+    this.catalog = catalog;
+  }
+
+  public getSource(id: string): ImportedModelDesign | null {
+    return this.sources.get(id) ?? null;
+  }
+
+  public async importFile(file: File): Promise<FurnitureDefinition> {
+    if (!/\.(glb|gltf)$/i.test(file.name)) {
+      throw new ModelImportError(`${file.name} is not a .gltf or .glb file`);
+    }
+
+    const data = await readAsDataUrl(file);
+    const name = file.name.replace(/\.(glb|gltf)$/i, '');
+    return this.register({ id: await contentId(file), name, data });
+  }
+
+  public async register(model: ImportedModelDesign): Promise<FurnitureDefinition> {
+    if (this.catalog.has(model.id)) {
+      this.sources.set(model.id, model);
+      return this.catalog.get(model.id);
+    }
+
+    const buffer = await (await fetch(model.data)).arrayBuffer();
+    let template: THREE.Group;
+    try {
+      const gltf = await this.loader.parseAsync(buffer, '');
+      template = this.normalize(gltf.scene);
+    } catch (error) {
+      if (error instanceof ModelImportError) throw error;
+      throw new ModelImportError(
+        `Could not read ${model.name}: ${(error as Error).message}. Only .glb files and .gltf files with embedded buffers are supported.`
+      );
+    }
+
+    const size = new THREE.Box3().setFromObject(template).getSize(new THREE.Vector3());
+    const definition: FurnitureDefinition = {
+      id: model.id,
+      name: `📦 ${model.name}`,
+      category: IMPORTED_MODEL_CATEGORY,
+      dimensions: { width: size.x, height: size.y, depth: size.z },
+      build: () => cloneModel(template)
+    };
+
+    this.catalog.register(definition);
+    this.sources.set(model.id, model);
+    console.log(`📦 Imported model ${model.name} (${size.x.toFixed(2)} × ${size.y.toFixed(2)} × ${size.z.toFixed(2)} m)`);
+    return definition;
+  }
+
+  public pickFile(): Promise<File | null> {
+    return new Promise((resolve) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.glb,.gltf,model/gltf-binary,model/gltf+json';
+      input.addEventListener('change', () => resolve(input.files?.[0] ?? null));
+      input.addEventListener('cancel', () => resolve(null));
+      input.click();
+    });
+  }
+
+  private normalize(model: THREE.Object3D): THREE.Group {
+    model.updateMatrixWorld(true);
+    const box = new THREE.Box3().setFromObject(model);
+    const scale = normalizedModelScale(box.getSize(new THREE.Vector3()));
+
+    // Centre the footprint on the origin and rest the lowest point on the floor.
+    const center = box.getCenter(new THREE.Vector3());
+    model.position.sub(new THREE.Vector3(center.x, box.min.y, center.z));
+
+    const scaled = new THREE.Group();
+    scaled.scale.setScalar(scale);
+    scaled.add(model);
+
+    const root = new THREE.Group();
+    root.add(scaled);
+
+    root.traverse(child => {
+      if (child instanceof THREE.Mesh) {
+        child.castShadow = true;
+        child.receiveShadow = true;
+        // glTF material names ("Fabric", "Wood", ...) make better part names than mesh names.
+        const material = Array.isArray(child.material) ? child.material[0] : child.material;
+        child.userData.part = material?.name || child.name || 'body';
+      }
+    });
+    return root;
+  }
+}
+
+function cloneModel(template: THREE.Group): THREE.Group {
+  const group = template.clone(true);
+  // Each placed copy gets its own materials so highlighting and texturing stay per piece.
+  group.traverse(child => {
+    if (child instanceof THREE.Mesh) {
+      child.material = Array.isArray(child.material)
+        ? child.material.map(material => material.clone())
+        : child.material.clone();
+    }
+  });
+  return group;
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.addEventListener('load', () => resolve(reader.result as string));
+    reader.addEventListener('error', () => reject(reader.error));
+    reader.readAsDataURL(file);
+  });
+}
+
+async function contentId(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  const hex = [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+  return `model_${hex.slice(0, 16)}`;
+}
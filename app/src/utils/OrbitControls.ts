@@ -1,14 +1,45 @@
 import * as THREE from 'three';
 
+import { MapControls } from 'three/examples/jsm/controls/MapControls.js';
 import { OrbitControls as ThreeOrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { PointerLockControls } from 'three/examples/jsm/controls/PointerLockControls.js';
+
+import { EYE_HEIGHT, WalkSegment, resolveWalkMovement } from './Walkthrough';
 
 export type ControlMode = 'camera' | 'transform';
 
+interface CameraTransition {
+  fromPosition: THREE.Vector3;
+  fromTarget: THREE.Vector3;
+  toPosition: THREE.Vector3;
+  toTarget: THREE.Vector3;
+  startTime: number;
+  duration: number;
+  resolve: (completed: boolean) => void;
+}
+
+const WALK_SPEED = 1.4;
+const RUN_SPEED = 2.8;
+
+function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
 export class OrbitControls {
   private controls: ThreeOrbitControls;
   private camera: THREE.Camera;
+  private domElement: HTMLElement;
+  private planControls: MapControls | null = null;
+  private savedPose: { position: THREE.Vector3; target: THREE.Vector3 } | null = null;
+  private transition: CameraTransition | null = null;
+  private walkControls: PointerLockControls | null = null;
+  private walkObstacles: () => WalkSegment[] = () => [];
+  private lastWalkTime = 0;
+  private lockPointer = () => this.walkControls?.lock();
+  private lastInteraction = 0;
   private enabled = true;
   private mode: ControlMode = 'camera';
+  private suspended = false;
   
   private moveSpeed = 0.2;
   private verticalSpeed = 0.15;
@@ -23,6 +54,7 @@ export class OrbitControls {
     onModeChange?: (mode: ControlMode) => void
   ) {
     this.camera = camera;
+    this.domElement = domElement;
     this.onUpdate = onUpdate;
     this.onModeChange = onModeChange;
     
@@ -46,13 +78,15 @@ export class OrbitControls {
     this.controls.listenToKeyEvents(domElement);
     
     this.controls.addEventListener('change', onUpdate);
+    // Grabbing the camera mid-flight hands control straight back to the user.
+    this.controls.addEventListener('start', () => this.onUserInteraction());
     
     window.addEventListener('keydown', this.onKeyDown.bind(this));
     window.addEventListener('keyup', this.onKeyUp.bind(this));
   }
 
   private onKeyDown(e: KeyboardEvent) {
-    if (!this.enabled) return;
+    if (!this.enabled || e.ctrlKey || e.metaKey) return;
     
     const key = e.key.toLowerCase();
     
@@ -63,15 +97,32 @@ export class OrbitControls {
     }
     
     this.keys[key] = true;
+    if (['w', 'a', 's', 'd', 'q', 'e'].includes(key)) {
+      this.onUserInteraction();
+    }
+  }
+
+  private onUserInteraction() {
+    this.lastInteraction = performance.now();
+    this.cancelTransition();
   }
 
   private onKeyUp(e: KeyboardEvent) {
     this.keys[e.key.toLowerCase()] = false;
   }
 
+  // Only the active controls follow the pointer: the orbit ones in 3D, the pan/zoom ones in plan view.
+  private syncEnabled() {
+    const interactive = this.mode === 'camera' && this.enabled && !this.suspended;
+    this.controls.enabled = interactive && !this.planControls && !this.walkControls;
+    if (this.planControls) {
+      this.planControls.enabled = interactive;
+    }
+  }
+
   public toggleMode() {
     this.mode = this.mode === 'camera' ? 'transform' : 'camera';
-    this.controls.enabled = this.mode === 'camera';
+    this.syncEnabled();
     console.log(`🔄 Mode switched to: ${this.mode.toUpperCase()}`);
     if (this.onModeChange) {
       this.onModeChange(this.mode);
@@ -80,7 +131,7 @@ export class OrbitControls {
 
   public setMode(mode: ControlMode) {
     this.mode = mode;
-    this.controls.enabled = mode === 'camera';
+    this.syncEnabled();
     if (this.onModeChange) {
       this.onModeChange(this.mode);
     }
@@ -93,7 +144,19 @@ export class OrbitControls {
   public update() {
     if (!this.enabled) return;
 
-    if (this.mode === 'camera') {
+    if (this.planControls) {
+      this.planControls.update();
+      return;
+    }
+
+    if (this.walkControls) {
+      this.stepWalk();
+      return;
+    }
+
+    if (this.transition) {
+      this.stepTransition();
+    } else if (this.mode === 'camera') {
       const forward = new THREE.Vector3();
       const right = new THREE.Vector3();
       
@@ -160,18 +223,166 @@ export class OrbitControls {
     return this.controls.target;
   }
 
+  // Eases the orbit camera to a new pose; resolves false when the flight is interrupted.
+  public animateTo(position: THREE.Vector3Like, target: THREE.Vector3Like, duration = 1.2): Promise<boolean> {
+    this.cancelTransition();
+    return new Promise(resolve => {
+      this.transition = {
+        fromPosition: this.camera.position.clone(),
+        fromTarget: this.controls.target.clone(),
+        toPosition: new THREE.Vector3().copy(position),
+        toTarget: new THREE.Vector3().copy(target),
+        startTime: performance.now(),
+        duration: Math.max(0, duration) * 1000,
+        resolve
+      };
+    });
+  }
+
+  // Time (performance.now) the user last grabbed or drove the camera.
+  public getLastInteraction(): number {
+    return this.lastInteraction;
+  }
+
+  public isAnimating(): boolean {
+    return this.transition !== null;
+  }
+
+  public cancelTransition() {
+    const transition = this.transition;
+    this.transition = null;
+    transition?.resolve(false);
+  }
+
+  private stepTransition() {
+    const transition = this.transition!;
+    const progress = transition.duration > 0
+      ? Math.min(1, (performance.now() - transition.startTime) / transition.duration)
+      : 1;
+    const eased = easeInOutCubic(progress);
+
+    this.camera.position.lerpVectors(transition.fromPosition, transition.toPosition, eased);
+    this.controls.target.lerpVectors(transition.fromTarget, transition.toTarget, eased);
+    this.onUpdate();
+
+    if (progress >= 1) {
+      this.transition = null;
+      transition.resolve(true);
+    }
+  }
+
   public getControls(): ThreeOrbitControls {
     return this.controls;
   }
 
+  // Temporarily hands the pointer to something else, e.g. while a gizmo handle is dragged.
+  public setSuspended(suspended: boolean) {
+    this.suspended = suspended;
+    this.syncEnabled();
+  }
+
   public setEnabled(enabled: boolean) {
     this.enabled = enabled;
-    if (this.mode === 'camera') {
-      this.controls.enabled = enabled;
+    this.syncEnabled();
+  }
+
+  // Hands navigation to a top-down pan/zoom camera; passing null returns to the orbit camera where it was left.
+  public setPlanCamera(camera: THREE.OrthographicCamera | null, target?: THREE.Vector3) {
+    if (camera && !this.planControls) {
+      this.cancelTransition();
+      this.savedPose = { position: this.camera.position.clone(), target: this.controls.target.clone() };
+      this.planControls = new MapControls(camera, this.domElement);
+      this.planControls.enableRotate = false;
+      this.planControls.enableDamping = true;
+      this.planControls.dampingFactor = 0.1;
+      this.planControls.minZoom = 0.25;
+      this.planControls.maxZoom = 8;
+      if (target) this.planControls.target.copy(target);
+      this.planControls.addEventListener('change', this.onUpdate);
+    } else if (!camera && this.planControls) {
+      this.planControls.dispose();
+      this.planControls = null;
+      if (this.savedPose) {
+        this.camera.position.copy(this.savedPose.position);
+        this.controls.target.copy(this.savedPose.target);
+        this.savedPose = null;
+      }
+      this.controls.update();
+    }
+    this.syncEnabled();
+  }
+
+  public isPlanView(): boolean {
+    return this.planControls !== null;
+  }
+
+  // First-person mode: click to capture the mouse for looking around, WASD to walk (Shift to run) at eye height.
+  // Passing null returns to the orbit camera where it was left.
+  public setWalkthrough(obstacles: (() => WalkSegment[]) | null, start?: THREE.Vector3) {
+    if (obstacles && !this.walkControls) {
+      this.cancelTransition();
+      this.savedPose = { position: this.camera.position.clone(), target: this.controls.target.clone() };
+      this.walkObstacles = obstacles;
+
+      const lookAt = this.controls.target.clone().setY(EYE_HEIGHT);
+      this.camera.position.set(start?.x ?? this.camera.position.x, EYE_HEIGHT, start?.z ?? this.camera.position.z);
+      if (lookAt.distanceTo(this.camera.position) > 0.01) this.camera.lookAt(lookAt);
+
+      this.walkControls = new PointerLockControls(this.camera, this.domElement);
+      this.walkControls.addEventListener('change', this.onUpdate);
+      this.domElement.addEventListener('click', this.lockPointer);
+      this.lastWalkTime = performance.now();
+    } else if (!obstacles && this.walkControls) {
+      this.domElement.removeEventListener('click', this.lockPointer);
+      this.walkControls.unlock();
+      this.walkControls.dispose();
+      this.walkControls = null;
+      this.walkObstacles = () => [];
+      if (this.savedPose) {
+        this.camera.position.copy(this.savedPose.position);
+        this.controls.target.copy(this.savedPose.target);
+        this.savedPose = null;
+      }
+      this.controls.update();
     }
+    this.syncEnabled();
+  }
+
+  public isWalkthrough(): boolean {
+    return this.walkControls !== null;
+  }
+
+  private stepWalk() {
+    const now = performance.now();
+    // Clamp the frame time so a stalled tab does not teleport the walker.
+    const elapsed = Math.min(0.1, (now - this.lastWalkTime) / 1000);
+    this.lastWalkTime = now;
+
+    const forward = new THREE.Vector3();
+    this.camera.getWorldDirection(forward);
+    forward.y = 0;
+    forward.normalize();
+    const right = new THREE.Vector3().crossVectors(forward, new THREE.Vector3(0, 1, 0)).normalize();
+
+    const move = new THREE.Vector3()
+      .addScaledVector(forward, (this.keys['w'] ? 1 : 0) - (this.keys['s'] ? 1 : 0))
+      .addScaledVector(right, (this.keys['d'] ? 1 : 0) - (this.keys['a'] ? 1 : 0));
+    if (move.lengthSq() === 0) return;
+    move.normalize().multiplyScalar((this.keys['shift'] ? RUN_SPEED : WALK_SPEED) * elapsed);
+
+    const next = resolveWalkMovement(
+      new THREE.Vector2(this.camera.position.x, this.camera.position.z),
+      new THREE.Vector2(move.x, move.z),
+      this.walkObstacles()
+    );
+    this.camera.position.set(next.x, EYE_HEIGHT, next.y);
+    this.onUpdate();
   }
 
   public dispose() {
+    this.cancelTransition();
+    this.setWalkthrough(null);
+    this.planControls?.dispose();
     this.controls.dispose();
     window.removeEventListener('keydown', this.onKeyDown.bind(this));
     window.removeEventListener('keyup', this.onKeyUp.bind(this));
@@ -0,0 +1,390 @@
+import * as THREE from 'three';
+
+import { RoomPoint, RoomSpec } from '../types/RoomSpec';
+
+import { computeFootprint, computeLocalBounds } from './Collision';
+import { PLAN_WALL_THICKNESS } from './PlanView';
+import { clampOpening, getRoomBounds, getWallSegments, signedArea } from './RoomGeometry';
+import { RoomScene } from './RoomScene';
+import { ExportedFile } from './SceneExporter';
+import { UnitSystem, formatArea, formatLength } from './Units';
+
+export type PlanFormat = 'svg' | 'pdf';
+export type PaperSize = 'A4' | 'A3';
+
+export interface PlanExportOptions {
+  format: PlanFormat;
+  paper: PaperSize;
+  units: UnitSystem;
+}
+
+export interface PlanFurniture {
+  name: string;
+  corners: RoomPoint[];
+  width: number;
+  depth: number;
+}
+
+export interface PlanInput {
+  title: string;
+  room: RoomSpec;
+  furniture: PlanFurniture[];
+  units: UnitSystem;
+  paper: PaperSize;
+}
+
+type PagePoint = [number, number];
+
+// Page coordinates are millimetres from the top-left corner of the sheet.
+export type PlanShape =
+  | { kind: 'polygon'; points: PagePoint[]; fill: string | null; stroke: string | null; width: number }
+  | { kind: 'polyline'; points: PagePoint[]; stroke: string; width: number }
+  | { kind: 'text'; at: PagePoint; text: string; size: number; anchor: 'start' | 'middle' | 'end'; bold: boolean };
+
+export interface PlanDrawing {
+  title: string;
+  width: number;
+  height: number;
+  scale: number;
+  shapes: PlanShape[];
+}
+
+// Landscape sheet sizes in millimetres.
+const PAPER_SIZES: Record<PaperSize, PagePoint> = {
+  A4: [297, 210],
+  A3: [420, 297]
+};
+const MARGIN = 10;
+const TITLE_BLOCK: PagePoint = [110, 26];
+// Common architectural scales, tried from the most detailed down.
+const SCALES = [10, 20, 25, 50, 75, 100, 150, 200, 250, 500, 1000];
+const LABEL_SPACE = 0.6;
+const SCALE_BAR_MAX = 60;
+const METRIC_BAR_LENGTHS = [0.5, 1, 2, 5, 10, 20];
+const IMPERIAL_BAR_LENGTHS = [1, 2, 5, 10, 20, 50, 100].map(feet => feet * 0.3048);
+const DOOR_SWING_STEPS = 12;
+
+const INK = '#212121';
+const WALL_FILL = '#37474f';
+const FLOOR_FILL = '#f5f5f5';
+const FURNITURE_STROKE = '#1565c0';
+const FURNITURE_FILL = '#e3f2fd';
+const WINDOW_STROKE = '#0288d1';
+
+// Keeps plain Latin-1 text; emoji in catalog names cannot be printed with the standard PDF fonts.
+export function planLabel(text: string): string {
+  return text.replace(/[^ -ÿ–—]/gu, '').trim();
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+export function createPlanDrawing(input: PlanInput): PlanDrawing {
+  const [pageWidth, pageHeight] = PAPER_SIZES[input.paper];
+  const shapes: PlanShape[] = [];
+  const format = (meters: number) => formatLength(meters, input.units);
+
+  const area = {
+    x: MARGIN,
+    y: MARGIN,
+    width: pageWidth - MARGIN * 2,
+    height: pageHeight - MARGIN * 2 - TITLE_BLOCK[1] - 4
+  };
+
+  const bounds = getRoomBounds(input.room.outline);
+  const extentX = bounds.maxX - bounds.minX + LABEL_SPACE * 2;
+  const extentZ = bounds.maxZ - bounds.minZ + LABEL_SPACE * 2;
+  const scale = SCALES.find(s => extentX * 1000 / s <= area.width && extentZ * 1000 / s <= area.height)
+    ?? SCALES[SCALES.length - 1];
+  const mmPerMeter = 1000 / scale;
+
+  const centerX = (bounds.minX + bounds.maxX) / 2;
+  const centerZ = (bounds.minZ + bounds.maxZ) / 2;
+  const toPage = (x: number, z: number): PagePoint => [
+    area.x + area.width / 2 + (x - centerX) * mmPerMeter,
+    area.y + area.height / 2 + (z - centerZ) * mmPerMeter
+  ];
+  const fromVector = (v: THREE.Vector3) => toPage(v.x, v.z);
+
+  shapes.push({ kind: 'polygon', points: [[MARGIN / 2, MARGIN / 2], [pageWidth - MARGIN / 2, MARGIN / 2], [pageWidth - MARGIN / 2, pageHeight - MARGIN / 2], [MARGIN / 2, pageHeight - MARGIN / 2]], fill: null, stroke: INK, width: 0.35 });
+  shapes.push({ kind: 'polygon', points: input.room.outline.map(p => toPage(p.x, p.z)), fill: FLOOR_FILL, stroke: null, width: 0 });
+
+  const segments = getWallSegments(input.room.outline);
+  segments.forEach(segment => {
+    const outward = segment.inward.clone().negate();
+    shapes.push({
+      kind: 'polygon',
+      points: [
+        segment.start,
+        segment.end,
+        segment.end.clone().addScaledVector(outward, PLAN_WALL_THICKNESS),
+        segment.start.clone().addScaledVector(outward, PLAN_WALL_THICKNESS)
+      ].map(fromVector),
+      fill: WALL_FILL,
+      stroke: null,
+      width: 0
+    });
+    const labelAt = segment.center.clone().addScaledVector(outward, PLAN_WALL_THICKNESS + 0.3);
+    shapes.push({ kind: 'text', at: fromVector(labelAt), text: format(segment.length), size: 2.5, anchor: 'middle', bold: false });
+  });
+
+  input.room.openings.forEach(spec => {
+    const segment = segments[spec.wallIndex];
+    if (!segment) return;
+    const opening = clampOpening(spec, segment.length, input.room.height);
+    const outward = segment.inward.clone().negate();
+    const start = segment.start.clone().addScaledVector(segment.direction, opening.offset - opening.width / 2);
+    const end = segment.start.clone().addScaledVector(segment.direction, opening.offset + opening.width / 2);
+    const gap = [start, end, end.clone().addScaledVector(outward, PLAN_WALL_THICKNESS), start.clone().addScaledVector(outward, PLAN_WALL_THICKNESS)];
+    shapes.push({ kind: 'polygon', points: gap.map(fromVector), fill: '#ffffff', stroke: null, width: 0 });
+
+    if (opening.kind === 'window') {
+      // Glazing is drawn as a double line across the wall opening.
+      [0.35, 0.65].forEach(depth => {
+        const a = start.clone().addScaledVector(outward, PLAN_WALL_THICKNESS * depth);
+        const b = end.clone().addScaledVector(outward, PLAN_WALL_THICKNESS * depth);
+        shapes.push({ kind: 'polyline', points: [fromVector(a), fromVector(b)], stroke: WINDOW_STROKE, width: 0.25 });
+      });
+    } else {
+      const leafEnd = start.clone().addScaledVector(segment.inward, opening.width);
+      shapes.push({ kind: 'polyline', points: [fromVector(start), fromVector(leafEnd)], stroke: INK, width: 0.35 });
+      const arc: PagePoint[] = [];
+      for (let i = 0; i <= DOOR_SWING_STEPS; i++) {
+        const angle = (i / DOOR_SWING_STEPS) * Math.PI / 2;
+        arc.push(fromVector(start.clone()
+          .addScaledVector(segment.inward, Math.cos(angle) * opening.width)
+          .addScaledVector(segment.direction, Math.sin(angle) * opening.width)));
+      }
+      shapes.push({ kind: 'polyline', points: arc, stroke: INK, width: 0.18 });
+    }
+  });
+
+  input.furniture.forEach(item => {
+    if (item.corners.length === 0) return;
+    shapes.push({ kind: 'polygon', points: item.corners.map(p => toPage(p.x, p.z)), fill: FURNITURE_FILL, stroke: FURNITURE_STROKE, width: 0.3 });
+    const [x, y] = toPage(
+      item.corners.reduce((sum, p) => sum + p.x, 0) / item.corners.length,
+      item.corners.reduce((sum, p) => sum + p.z, 0) / item.corners.length
+    );
+    shapes.push({ kind: 'text', at: [x, y - 0.6], text: item.name, size: 2.2, anchor: 'middle', bold: true });
+    shapes.push({ kind: 'text', at: [x, y + 2.2], text: `${format(item.width)} × ${format(item.depth)}`, size: 1.8, anchor: 'middle', bold: false });
+  });
+
+  // Scale bar: four alternating segments in the bottom-left corner.
+  const barLengths = input.units === 'metric' ? METRIC_BAR_LENGTHS : IMPERIAL_BAR_LENGTHS;
+  const barLength = [...barLengths].reverse().find(length => length * mmPerMeter <= SCALE_BAR_MAX) ?? barLengths[0];
+  const barX = MARGIN;
+  const barY = pageHeight - MARGIN - 8;
+  const step = barLength * mmPerMeter / 4;
+  for (let i = 0; i < 4; i++) {
+    const left = barX + step * i;
+    shapes.push({
+      kind: 'polygon',
+      points: [[left, barY], [left + step, barY], [left + step, barY + 2], [left, barY + 2]],
+      fill: i % 2 === 0 ? INK : '#ffffff',
+      stroke: INK,
+      width: 0.2
+    });
+  }
+  shapes.push({ kind: 'text', at: [barX, barY - 1.5], text: '0', size: 2.5, anchor: 'middle', bold: false });
+  shapes.push({ kind: 'text', at: [barX + step * 4, barY - 1.5], text: format(barLength), size: 2.5, anchor: 'middle', bold: false });
+
+  const [blockWidth, blockHeight] = TITLE_BLOCK;
+  const blockX = pageWidth - MARGIN - blockWidth;
+  const blockY = pageHeight - MARGIN - blockHeight;
+  shapes.push({ kind: 'polygon', points: [[blockX, blockY], [blockX + blockWidth, blockY], [blockX + blockWidth, blockY + blockHeight], [blockX, blockY + blockHeight]], fill: '#ffffff', stroke: INK, width: 0.35 });
+  shapes.push({ kind: 'polyline', points: [[blockX, blockY + 10], [blockX + blockWidth, blockY + 10]], stroke: INK, width: 0.2 });
+  shapes.push({ kind: 'text', at: [blockX + 3, blockY + 7], text: planLabel(input.title) || 'Untitled', size: 5, anchor: 'start', bold: true });
+  shapes.push({ kind: 'text', at: [blockX + 3, blockY + 15], text: `Floor plan — Scale 1:${scale} (${input.paper})`, size: 3, anchor: 'start', bold: false });
+  shapes.push({
+    kind: 'text',
+    at: [blockX + 3, blockY + 19.5],
+    text: `Floor area ${formatArea(Math.abs(signedArea(input.room.outline)), input.units)} · Ceiling ${format(input.room.height)}`,
+    size: 2.6,
+    anchor: 'start',
+    bold: false
+  });
+  shapes.push({
+    kind: 'text',
+    at: [blockX + 3, blockY + 23.5],
+    text: `Walls ${segments.length} · Openings ${input.room.openings.length} · Furniture ${input.furniture.length}`,
+    size: 2.6,
+    anchor: 'start',
+    bold: false
+  });
+
+  return { title: input.title, width: pageWidth, height: pageHeight, scale, shapes };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function planToSvg(drawing: PlanDrawing): string {
+  const points = (list: PagePoint[]) => list.map(([x, y]) => `${formatNumber(x)},${formatNumber(y)}`).join(' ');
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${drawing.width}mm" height="${drawing.height}mm" viewBox="0 0 ${drawing.width} ${drawing.height}">`,
+    `<title>${escapeXml(drawing.title)}</title>`,
+    `<rect width="${drawing.width}" height="${drawing.height}" fill="#ffffff"/>`
+  ];
+
+  drawing.shapes.forEach(shape => {
+    if (shape.kind === 'polygon') {
+      const stroke = shape.stroke ? ` stroke="${shape.stroke}" stroke-width="${formatNumber(shape.width)}"` : '';
+      lines.push(`<polygon points="${points(shape.points)}" fill="${shape.fill ?? 'none'}"${stroke}/>`);
+    } else if (shape.kind === 'polyline') {
+      lines.push(`<polyline points="${points(shape.points)}" fill="none" stroke="${shape.stroke}" stroke-width="${formatNumber(shape.width)}"/>`);
+    } else {
+      const weight = shape.bold ? ' font-weight="bold"' : '';
+      lines.push(
+        `<text x="${formatNumber(shape.at[0])}" y="${formatNumber(shape.at[1])}" font-family="Helvetica, Arial, sans-serif" font-size="${formatNumber(shape.size)}" text-anchor="${shape.anchor}"${weight} fill="${INK}">${escapeXml(shape.text)}</text>`
+      );
+    }
+  });
+
+  lines.push('</svg>');
+  return lines.join('\n') + '\n';
+}
+
+const POINTS_PER_MM = 72 / 25.4;
+
+// Helvetica advance widths (per 1000 em) for ASCII 32–126, used to centre text in the PDF.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers.
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x2013: 0x96,
+  0x2014: 0x97,
+  0x2022: 0x95,
+  0x2026: 0x85,
+  0x20ac: 0x80
+};
+
+function winAnsiCodes(text: string): number[] {
+  return [...text].map(char => {
+    const code = char.codePointAt(0) ?? 63;
+    if (code < 0x80 || (code >= 0xa0 && code <= 0xff)) return code;
+    return WIN_ANSI_EXTRAS[code] ?? 63;
+  });
+}
+
+function textWidth(codes: number[], size: number): number {
+  const units = codes.reduce((sum, code) => sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556), 0);
+  return units / 1000 * size;
+}
+
+function pdfColor(hex: string): string {
+  // Read straight from the #rrggbb bytes: THREE.Color would return colour-managed linear values, darker than the SVG.
+  const value = parseInt(hex.slice(1), 16);
+  // Three decimals, unlike coordinates, so every byte survives the round trip.
+  return [value >> 16, (value >> 8) & 0xff, value & 0xff]
+    .map(channel => Number((channel / 255).toFixed(3)).toString())
+    .join(' ');
+}
+
+function pdfString(codes: number[]): string {
+  return codes.map(code => {
+    const char = String.fromCharCode(code);
+    return char === '(' || char === ')' || char === '\\' ? `\\${char}` : char;
+  }).join('');
+}
+
+export function planToPdf(drawing: PlanDrawing): Uint8Array {
+  const pageWidth = drawing.width * POINTS_PER_MM;
+  const pageHeight = drawing.height * POINTS_PER_MM;
+  const x = (mm: number) => formatNumber(mm * POINTS_PER_MM);
+  const y = (mm: number) => formatNumber(pageHeight - mm * POINTS_PER_MM);
+  const path = (list: PagePoint[]) => list.map(([px, py], i) => `${x(px)} ${y(py)} ${i === 0 ? 'm' : 'l'}`).join(' ');
+
+  const content: string[] = ['1 J 1 j'];
+  drawing.shapes.forEach(shape => {
+    if (shape.kind === 'polygon') {
+      const ops: string[] = [];
+      if (shape.fill) ops.push(`${pdfColor(shape.fill)} rg`);
+      if (shape.stroke) ops.push(`${pdfColor(shape.stroke)} RG ${x(shape.width)} w`);
+      const paint = shape.fill && shape.stroke ? 'b' : shape.fill ? 'f' : 's';
+      content.push(`${ops.join(' ')} ${path(shape.points)} ${paint}`);
+    } else if (shape.kind === 'polyline') {
+      content.push(`${pdfColor(shape.stroke)} RG ${x(shape.width)} w ${path(shape.points)} S`);
+    } else {
+      const codes = winAnsiCodes(shape.text);
+      const size = shape.size * POINTS_PER_MM;
+      const width = textWidth(codes, size) / POINTS_PER_MM;
+      const left = shape.anchor === 'middle' ? shape.at[0] - width / 2 : shape.anchor === 'end' ? shape.at[0] - width : shape.at[0];
+      content.push(`BT ${pdfColor(INK)} rg /${shape.bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${x(left)} ${y(shape.at[1])} Td (${pdfString(codes)}) Tj ET`);
+    }
+  });
+  const stream = content.join('\n');
+
+  // Hand-written PDF 1.4 with fixed object numbers and no timestamps, so identical plans give identical bytes.
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(pageWidth)} ${formatNumber(pageHeight)}] /Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> /Contents 4 0 R >>`,
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${pdfString(winAnsiCodes(drawing.title))}) /Producer (3D Room Designer) >>`
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach(offset => {
+    pdf += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+  });
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  // Every character is a single WinAnsi byte, so string offsets above are byte offsets too.
+  return Uint8Array.from(pdf, char => char.charCodeAt(0));
+}
+
+export class PlanExporter {
+  private roomScene: RoomScene;
+
+  constructor(roomScene: RoomScene) {
+    this.roomScene = roomScene;
+  }
+
+  public collectInput(title: string, options: PlanExportOptions): PlanInput {
+    const furniture = this.roomScene.getAllFurniture().map(item => {
+      const size = computeLocalBounds(item.group).getSize(new THREE.Vector3()).multiply(item.group.scale);
+      return {
+        name: planLabel(this.roomScene.getFurnitureDefinition(item).name),
+        corners: computeFootprint(item.group).corners,
+        width: size.x,
+        depth: size.z
+      };
+    });
+
+    return {
+      title,
+      room: this.roomScene.getRoomSpec(),
+      furniture,
+      units: options.units,
+      paper: options.paper
+    };
+  }
+
+  public export(options: PlanExportOptions, baseName = 'room'): ExportedFile[] {
+    const drawing = createPlanDrawing(this.collectInput(baseName, options));
+    if (options.format === 'svg') {
+      return [{ name: `${baseName}-plan.svg`, data: new Blob([planToSvg(drawing)], { type: 'image/svg+xml' }) }];
+    }
+    return [{ name: `${baseName}-plan.pdf`, data: new Blob([planToPdf(drawing)], { type: 'application/pdf' }) }];
+  }
+}
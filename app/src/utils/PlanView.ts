@@ -0,0 +1,204 @@
+import * as THREE from 'three';
+
+import { clearOverlay, createLabel, createLines } from './Annotations';
+import { computeFootprint, computeLocalBounds } from './Collision';
+import { clampOpening } from './RoomGeometry';
+import { RoomScene } from './RoomScene';
+import { UnitSystem, formatLength } from './Units';
+
+// Walls are drawn as strips of this thickness on the outside of the room outline.
+export const PLAN_WALL_THICKNESS = 0.12;
+
+const WALL_COLOR = 0x37474f;
+const WINDOW_COLOR = 0x4fc3f7;
+const DOOR_COLOR = 0xffffff;
+const FURNITURE_COLOR = 0x1565c0;
+const SELECTED_COLOR = 0xffa000;
+const LABEL_HEIGHT = 0.22;
+const CAMERA_HEIGHT = 50;
+const FIT_MARGIN = 1.15;
+const DOOR_SWING_STEPS = 12;
+
+// A top-down orthographic view of the room with walls, openings and furniture footprints drawn over it.
+export class PlanView {
+  private roomScene: RoomScene;
+  private camera: THREE.OrthographicCamera;
+  private overlay: THREE.Group;
+  private units: UnitSystem = 'metric';
+  private active = false;
+
+  constructor(roomScene: RoomScene) {
+    this.roomScene = roomScene;
+
+    this.camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, CAMERA_HEIGHT * 2);
+
+    this.overlay = new THREE.Group();
+    this.overlay.name = 'planOverlay';
+    this.overlay.visible = false;
+    roomScene.addHelper(this.overlay);
+
+    roomScene.onChange(() => {
+      if (this.active) this.draw();
+    });
+  }
+
+  public isActive(): boolean {
+    return this.active;
+  }
+
+  public getCamera(): THREE.OrthographicCamera {
+    return this.camera;
+  }
+
+  public enter() {
+    if (this.active) return;
+    this.active = true;
+    this.fitToRoom();
+    this.roomScene.setActiveCamera(this.camera);
+    this.overlay.visible = true;
+    this.draw();
+  }
+
+  public exit() {
+    if (!this.active) return;
+    this.active = false;
+    this.roomScene.setActiveCamera(null);
+    this.overlay.visible = false;
+    clearOverlay(this.overlay);
+  }
+
+  public getCenter(): THREE.Vector3 {
+    const bounds = this.roomScene.getRoomBounds();
+    return new THREE.Vector3((bounds.minX + bounds.maxX) / 2, 0, (bounds.minZ + bounds.maxZ) / 2);
+  }
+
+  public fitToRoom() {
+    const bounds = this.roomScene.getRoomBounds();
+    const center = this.getCenter();
+    const aspect = this.aspect();
+    const halfHeight = Math.max((bounds.maxZ - bounds.minZ) / 2, (bounds.maxX - bounds.minX) / 2 / aspect) * FIT_MARGIN;
+
+    this.camera.top = halfHeight;
+    this.camera.bottom = -halfHeight;
+    this.camera.left = -halfHeight * aspect;
+    this.camera.right = halfHeight * aspect;
+    this.camera.zoom = 1;
+    // A hair of offset towards +Z keeps the pan controls from treating the view as degenerate; -Z points up the screen.
+    this.camera.position.set(center.x, CAMERA_HEIGHT, center.z + 0.001);
+    this.camera.lookAt(center);
+    this.camera.updateProjectionMatrix();
+  }
+
+  public updateAspect() {
+    const halfHeight = (this.camera.top - this.camera.bottom) / 2;
+    const aspect = this.aspect();
+    this.camera.left = -halfHeight * aspect;
+    this.camera.right = halfHeight * aspect;
+    this.camera.updateProjectionMatrix();
+  }
+
+  public setUnits(units: UnitSystem) {
+    this.units = units;
+    if (this.active) this.draw();
+  }
+
+  // Selection changes do not go through the scene's change listeners, so callers refresh explicitly.
+  public refresh() {
+    if (this.active) this.draw();
+  }
+
+  public dispose() {
+    clearOverlay(this.overlay);
+    this.roomScene.removeHelper(this.overlay);
+  }
+
+  private aspect(): number {
+    const canvas = this.roomScene.getRenderer().domElement;
+    return canvas.height > 0 ? canvas.width / canvas.height : 1;
+  }
+
+  private draw() {
+    clearOverlay(this.overlay);
+    const room = this.roomScene.getRoomSpec();
+    const segments = this.roomScene.getWallSegments();
+    const top = room.height + 0.05;
+    const at = (point: THREE.Vector3) => point.clone().setY(top);
+
+    segments.forEach(segment => {
+      const outward = segment.inward.clone().negate();
+      const strip = [
+        segment.start,
+        segment.end,
+        segment.end.clone().addScaledVector(outward, PLAN_WALL_THICKNESS),
+        segment.start.clone().addScaledVector(outward, PLAN_WALL_THICKNESS)
+      ].map(at);
+      this.overlay.add(this.createQuad(strip, WALL_COLOR));
+
+      const labelPosition = segment.center.clone().addScaledVector(outward, PLAN_WALL_THICKNESS + LABEL_HEIGHT);
+      this.addLabel(formatLength(segment.length, this.units), at(labelPosition));
+    });
+
+    room.openings.forEach(spec => {
+      const segment = segments[spec.wallIndex];
+      if (!segment) return;
+      const opening = clampOpening(spec, segment.length, room.height);
+      const outward = segment.inward.clone().negate();
+      const start = segment.start.clone().addScaledVector(segment.direction, opening.offset - opening.width / 2);
+      const end = segment.start.clone().addScaledVector(segment.direction, opening.offset + opening.width / 2);
+      const strip = [start, end, end.clone().addScaledVector(outward, PLAN_WALL_THICKNESS), start.clone().addScaledVector(outward, PLAN_WALL_THICKNESS)];
+      this.overlay.add(this.createQuad(strip.map(at), opening.kind === 'window' ? WINDOW_COLOR : DOOR_COLOR));
+
+      if (opening.kind === 'door') {
+        // Leaf and swing arc, hinged at the start of the opening and opening into the room.
+        const points: THREE.Vector3[] = [start, start.clone().addScaledVector(segment.inward, opening.width)];
+        for (let i = 0; i < DOOR_SWING_STEPS; i++) {
+          const a = (i / DOOR_SWING_STEPS) * Math.PI / 2;
+          const b = ((i + 1) / DOOR_SWING_STEPS) * Math.PI / 2;
+          const arcPoint = (angle: number) => start.clone()
+            .addScaledVector(segment.inward, Math.cos(angle) * opening.width)
+            .addScaledVector(segment.direction, Math.sin(angle) * opening.width);
+          points.push(arcPoint(a), arcPoint(b));
+        }
+        this.overlay.add(createLines(points.map(at), WALL_COLOR));
+      }
+
+      const labelPosition = start.clone().lerp(end, 0.5).addScaledVector(segment.inward, LABEL_HEIGHT);
+      this.addLabel(formatLength(opening.width, this.units), at(labelPosition));
+    });
+
+    const selected = new Set(this.roomScene.getSelectedFurniture());
+    this.roomScene.getAllFurniture().forEach(item => {
+      const corners = computeFootprint(item.group).corners;
+      if (corners.length === 0) return;
+
+      const outline = corners.flatMap((p, i) => {
+        const q = corners[(i + 1) % corners.length];
+        return [new THREE.Vector3(p.x, top, p.z), new THREE.Vector3(q.x, top, q.z)];
+      });
+      this.overlay.add(createLines(outline, selected.has(item) ? SELECTED_COLOR : FURNITURE_COLOR));
+
+      const size = computeLocalBounds(item.group).getSize(new THREE.Vector3()).multiply(item.group.scale);
+      const name = this.roomScene.getFurnitureDefinition(item).name;
+      const center = new THREE.Vector3(
+        corners.reduce((sum, p) => sum + p.x, 0) / corners.length,
+        top,
+        corners.reduce((sum, p) => sum + p.z, 0) / corners.length
+      );
+      this.addLabel(`${name} ${formatLength(size.x, this.units)} × ${formatLength(size.z, this.units)}`, center);
+    });
+  }
+
+  private createQuad(corners: THREE.Vector3[], color: THREE.ColorRepresentation): THREE.Mesh {
+    const geometry = new THREE.BufferGeometry().setFromPoints(corners);
+    geometry.setIndex([0, 1, 2, 0, 2, 3]);
+    const mesh = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ color, side: THREE.DoubleSide, depthTest: false }));
+    mesh.renderOrder = 998;
+    return mesh;
+  }
+
+  private addLabel(text: string, position: THREE.Vector3) {
+    const label = createLabel(text, LABEL_HEIGHT);
+    label.position.copy(position);
+    this.overlay.add(label);
+  }
+}
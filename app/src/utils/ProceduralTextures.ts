@@ -0,0 +1,277 @@
+import * as THREE from 'three';
+
+import { ProceduralPattern } from '../types/Material';
+
+const SIZE = 512;
+const NORMAL_STRENGTH = 6;
+const AO_RADIUS = 4;
+
+interface Texel {
+  r: number;
+  g: number;
+  b: number;
+  // 0 is the deepest groove, 1 the highest surface.
+  height: number;
+  roughness: number;
+  metalness: number;
+}
+
+type PatternSampler = (x: number, y: number) => Texel;
+
+export interface ProceduralTextureSet {
+  map: THREE.CanvasTexture;
+  normalMap: THREE.CanvasTexture;
+  // Ambient occlusion, roughness and metalness packed into red, green and blue, as glTF does.
+  ormMap: THREE.CanvasTexture;
+}
+
+// Normal map and packed AO/roughness/metalness derived from a photo's albedo.
+export interface DerivedTextureSet {
+  normalMap: THREE.CanvasTexture;
+  ormMap: THREE.CanvasTexture;
+}
+
+const clampByte = (value: number) => Math.max(0, Math.min(255, value));
+
+// Repeatable pseudo-random value in 0..1, so cell layouts match across the texture's wrapped edges.
+const hash = (n: number) => {
+  const value = Math.sin(n * 127.1) * 43758.5453;
+  return value - Math.floor(value);
+};
+
+const SAMPLERS: Record<ProceduralPattern, PatternSampler> = {
+  'wood-parquet': (x, y) => {
+    const plankWidth = 64;
+    const plankHeight = 8;
+    const plankY = Math.floor(y / plankHeight);
+    const localX = x % plankWidth;
+    const localY = y % plankHeight;
+
+    const grain = Math.sin(localX * 0.3 + plankY * 13) * 8;
+    const knots = Math.sin(localX * 0.1) * Math.sin(localY * 0.5) * 5;
+    const base = 120 + grain + knots + (Math.random() - 0.5) * 15;
+
+    const borderSize = 2;
+    const isBorder = localX < borderSize || localX >= plankWidth - borderSize ||
+                     localY < borderSize || localY >= plankHeight - borderSize;
+
+    return isBorder
+      ? { r: base * 0.5, g: base * 0.4, b: base * 0.3, height: 0.2, roughness: 0.85, metalness: 0 }
+      : { r: base * 0.7, g: base * 0.5, b: base * 0.35, height: 0.8 + grain * 0.005, roughness: 0.55, metalness: 0 };
+  },
+
+  'painted-wall': (x, y) => {
+    const variation = (Math.sin(x * 0.02) * Math.cos(y * 0.03) + Math.sin(x * 0.05 + y * 0.04)) * 8;
+    const noise = (Math.random() - 0.5) * 10;
+    return {
+      r: 235 + variation + noise,
+      g: 225 + variation + noise,
+      b: 210 + variation + noise,
+      height: 0.5 + variation * 0.02 + noise * 0.01,
+      roughness: 0.9,
+      metalness: 0
+    };
+  },
+
+  'brick': (x, y) => {
+    const brickW = 128, brickH = 32, mortarSize = 4;
+    const row = Math.floor(y / brickH);
+    const offsetX = (row % 2) * (brickW / 2);
+    const localX = (x + offsetX) % brickW;
+    const localY = y % brickH;
+
+    if (localX < mortarSize || localY < mortarSize) {
+      return { r: 180, g: 180, b: 180, height: 0.1, roughness: 1, metalness: 0 };
+    }
+    const variation = (Math.random() - 0.5) * 30;
+    return { r: 150 + variation, g: 80 + variation, b: 60 + variation, height: 0.85 + variation * 0.003, roughness: 0.8, metalness: 0 };
+  },
+
+  'checkerboard': (x, y) => {
+    const size = 64;
+    const groutSize = 2;
+    const isWhite = (Math.floor(x / size) + Math.floor(y / size)) % 2 === 0;
+    const isGrout = x % size < groutSize || y % size < groutSize;
+    if (isGrout) {
+      return { r: 150, g: 150, b: 145, height: 0.2, roughness: 0.95, metalness: 0 };
+    }
+    const value = isWhite ? 240 : 40;
+    return { r: value, g: value, b: value, height: 0.8, roughness: 0.25, metalness: 0 };
+  },
+
+  'oak': (x, y) => {
+    const grain = Math.sin(x * 0.1) * 15 + Math.sin(y * 0.05) * 8;
+    const base = 160 + grain;
+    return { r: base * 0.65, g: base * 0.45, b: base * 0.30, height: 0.5 + grain * 0.01, roughness: 0.6, metalness: 0 };
+  },
+
+  'fabric': (x, y) => {
+    const weave = Math.sin(x * 0.5) * Math.sin(y * 0.5) * 20;
+    const base = 120 + weave + (Math.random() - 0.5) * 30;
+    return { r: base, g: base * 0.9, b: base * 0.8, height: 0.5 + weave * 0.02, roughness: 0.95, metalness: 0 };
+  },
+
+  'stone': (x, y) => {
+    const cellSize = 128;
+    const cells = SIZE / cellSize;
+    const cellX = Math.floor(x / cellSize);
+    const cellY = Math.floor(y / cellSize);
+    let nearest = Infinity;
+    let second = Infinity;
+    let stoneId = 0;
+    // Flagstones are the Voronoi cells of one jittered point per grid cell.
+    for (let j = -1; j <= 1; j++) {
+      for (let i = -1; i <= 1; i++) {
+        const id = ((cellY + j + cells) % cells) * cells + (cellX + i + cells) % cells;
+        const distance = Math.hypot(
+          x - (cellX + i + 0.15 + hash(id) * 0.7) * cellSize,
+          y - (cellY + j + 0.15 + hash(id + 57) * 0.7) * cellSize
+        );
+        if (distance < nearest) {
+          second = nearest;
+          nearest = distance;
+          stoneId = id;
+        } else if (distance < second) {
+          second = distance;
+        }
+      }
+    }
+
+    const edge = second - nearest;
+    if (edge < 6) {
+      return { r: 95, g: 92, b: 88, height: 0.1, roughness: 1, metalness: 0 };
+    }
+    const noise = (Math.random() - 0.5) * 24;
+    const base = 120 + hash(stoneId + 13) * 60 + noise;
+    return {
+      r: base,
+      g: base * 0.96,
+      b: base * 0.9,
+      height: 0.6 + Math.min(1, edge / 24) * 0.3 + noise * 0.002,
+      roughness: 0.85,
+      metalness: 0
+    };
+  },
+
+  'metal': (x) => {
+    const brushed = Math.sin(x * 0.2) * 10;
+    const base = 180 + brushed + (Math.random() - 0.5) * 20;
+    return { r: base, g: base, b: base, height: 0.5 + brushed * 0.003, roughness: 0.35 + Math.abs(brushed) * 0.005, metalness: 1 };
+  }
+};
+
+export function isProceduralPattern(name: string): name is ProceduralPattern {
+  return name in SAMPLERS;
+}
+
+// Wrapping box blur, run along one axis at a time.
+function blur(values: Float32Array, radius: number): Float32Array {
+  const pass = (source: Float32Array, horizontal: boolean) => {
+    const result = new Float32Array(source.length);
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sx = horizontal ? (x + k + SIZE) % SIZE : x;
+          const sy = horizontal ? y : (y + k + SIZE) % SIZE;
+          sum += source[sy * SIZE + sx];
+        }
+        result[y * SIZE + x] = sum / (radius * 2 + 1);
+      }
+    }
+    return result;
+  };
+  return pass(pass(values, true), false);
+}
+
+function toTexture(pixels: Uint8ClampedArray, colorSpace: THREE.ColorSpace): THREE.CanvasTexture {
+  const canvas = document.createElement('canvas');
+  canvas.width = SIZE;
+  canvas.height = SIZE;
+  canvas.getContext('2d')?.putImageData(new ImageData(pixels, SIZE, SIZE), 0, 0);
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.colorSpace = colorSpace;
+  return texture;
+}
+
+function buildSurfaceMaps(heights: Float32Array, roughness: Float32Array, metalness: Float32Array): DerivedTextureSet {
+  const heightAt = (x: number, y: number) => heights[((y + SIZE) % SIZE) * SIZE + (x + SIZE) % SIZE];
+  const surroundings = blur(heights, AO_RADIUS);
+  const normals = new Uint8ClampedArray(SIZE * SIZE * 4);
+  const orm = new Uint8ClampedArray(SIZE * SIZE * 4);
+  const normal = new THREE.Vector3();
+
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const i = y * SIZE + x;
+      // Canvas rows run downwards while the normal map's +Y points up the texture.
+      const du = (heightAt(x + 1, y) - heightAt(x - 1, y)) / 2;
+      const dv = (heightAt(x, y - 1) - heightAt(x, y + 1)) / 2;
+      normal.set(-du * NORMAL_STRENGTH, -dv * NORMAL_STRENGTH, 1).normalize();
+      normals[i * 4] = (normal.x * 0.5 + 0.5) * 255;
+      normals[i * 4 + 1] = (normal.y * 0.5 + 0.5) * 255;
+      normals[i * 4 + 2] = (normal.z * 0.5 + 0.5) * 255;
+      normals[i * 4 + 3] = 255;
+
+      // Texels lower than their neighbourhood sit in grooves and get less ambient light.
+      const occlusion = THREE.MathUtils.clamp(1 - Math.max(0, surroundings[i] - heights[i]) * 1.5, 0.4, 1);
+      orm[i * 4] = occlusion * 255;
+      orm[i * 4 + 1] = roughness[i] * 255;
+      orm[i * 4 + 2] = metalness[i] * 255;
+      orm[i * 4 + 3] = 255;
+    }
+  }
+
+  return {
+    normalMap: toTexture(normals, THREE.NoColorSpace),
+    ormMap: toTexture(orm, THREE.NoColorSpace)
+  };
+}
+
+// Builds albedo, normal and packed AO/roughness/metalness maps from one pass over the pattern.
+export function createProceduralTextureSet(pattern: ProceduralPattern): ProceduralTextureSet {
+  const sampler = SAMPLERS[pattern];
+  const albedo = new Uint8ClampedArray(SIZE * SIZE * 4);
+  const heights = new Float32Array(SIZE * SIZE);
+  const roughness = new Float32Array(SIZE * SIZE);
+  const metalness = new Float32Array(SIZE * SIZE);
+
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const texel = sampler(x, y);
+      const i = y * SIZE + x;
+      albedo[i * 4] = clampByte(texel.r);
+      albedo[i * 4 + 1] = clampByte(texel.g);
+      albedo[i * 4 + 2] = clampByte(texel.b);
+      albedo[i * 4 + 3] = 255;
+      heights[i] = texel.height;
+      roughness[i] = texel.roughness;
+      metalness[i] = texel.metalness;
+    }
+  }
+
+  return { map: toTexture(albedo, THREE.SRGBColorSpace), ...buildSurfaceMaps(heights, roughness, metalness) };
+}
+
+// Photos only ship some channels, so the rest come from the albedo: brightness stands in for height.
+// Roughness and metalness stay at full strength, leaving the material's own factors in charge.
+export function deriveTextureSet(albedo: CanvasImageSource): DerivedTextureSet {
+  const canvas = document.createElement('canvas');
+  canvas.width = SIZE;
+  canvas.height = SIZE;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Could not derive texture maps: no 2D canvas context');
+  }
+  context.drawImage(albedo, 0, 0, SIZE, SIZE);
+  const pixels = context.getImageData(0, 0, SIZE, SIZE).data;
+
+  const heights = new Float32Array(SIZE * SIZE);
+  for (let i = 0; i < heights.length; i++) {
+    heights[i] = (pixels[i * 4] * 0.2126 + pixels[i * 4 + 1] * 0.7152 + pixels[i * 4 + 2] * 0.0722) / 255;
+  }
+  return buildSurfaceMaps(heights, new Float32Array(SIZE * SIZE).fill(1), new Float32Array(SIZE * SIZE).fill(1));
+}
@@ -0,0 +1,355 @@
+import * as THREE from 'three';
+
+import { MIN_ROOM_HEIGHT, RoomPoint, RoomSpec, WallOpeningSpec } from '../types/RoomSpec';
+
+export class InvalidRoomError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRoomError';
+  }
+}
+
+export interface WallSegment {
+  index: number;
+  start: THREE.Vector3;
+  end: THREE.Vector3;
+  center: THREE.Vector3;
+  direction: THREE.Vector3;
+  inward: THREE.Vector3;
+  length: number;
+  rotationY: number;
+}
+
+export interface RoomBounds {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+const EPSILON = 1e-6;
+
+export function cloneRoomSpec(spec: RoomSpec): RoomSpec {
+  return {
+    height: spec.height,
+    outline: spec.outline.map(point => ({ ...point })),
+    openings: spec.openings.map(opening => ({ ...opening }))
+  };
+}
+
+export function signedArea(outline: RoomPoint[]): number {
+  let area = 0;
+  for (let i = 0; i < outline.length; i++) {
+    const a = outline[i];
+    const b = outline[(i + 1) % outline.length];
+    area += a.x * b.z - b.x * a.z;
+  }
+  return area / 2;
+}
+
+function cross(o: RoomPoint, a: RoomPoint, b: RoomPoint): number {
+  return (a.x - o.x) * (b.z - o.z) - (a.z - o.z) * (b.x - o.x);
+}
+
+function onSegment(p: RoomPoint, a: RoomPoint, b: RoomPoint): boolean {
+  return Math.min(a.x, b.x) - EPSILON <= p.x && p.x <= Math.max(a.x, b.x) + EPSILON &&
+         Math.min(a.z, b.z) - EPSILON <= p.z && p.z <= Math.max(a.z, b.z) + EPSILON;
+}
+
+export function segmentsIntersect(a1: RoomPoint, a2: RoomPoint, b1: RoomPoint, b2: RoomPoint): boolean {
+  const d1 = cross(b1, b2, a1);
+  const d2 = cross(b1, b2, a2);
+  const d3 = cross(a1, a2, b1);
+  const d4 = cross(a1, a2, b2);
+
+  if (((d1 > EPSILON && d2 < -EPSILON) || (d1 < -EPSILON && d2 > EPSILON)) &&
+      ((d3 > EPSILON && d4 < -EPSILON) || (d3 < -EPSILON && d4 > EPSILON))) {
+    return true;
+  }
+
+  return (Math.abs(d1) <= EPSILON && onSegment(a1, b1, b2)) ||
+         (Math.abs(d2) <= EPSILON && onSegment(a2, b1, b2)) ||
+         (Math.abs(d3) <= EPSILON && onSegment(b1, a1, a2)) ||
+         (Math.abs(d4) <= EPSILON && onSegment(b2, a1, a2));
+}
+
+export function validateRoomOutline(outline: RoomPoint[]) {
+  if (!Array.isArray(outline) || outline.length < 3) {
+    throw new InvalidRoomError(`A room needs at least 3 corner points, got ${outline?.length ?? 0}`);
+  }
+
+  outline.forEach((point, i) => {
+    if (!Number.isFinite(point?.x) || !Number.isFinite(point?.z)) {
+      throw new InvalidRoomError(`Corner ${i + 1} has an invalid coordinate`);
+    }
+  });
+
+  const count = outline.length;
+  for (let i = 0; i < count; i++) {
+    const a = outline[i];
+    const b = outline[(i + 1) % count];
+    if (Math.hypot(b.x - a.x, b.z - a.z) < 0.1) {
+      throw new InvalidRoomError(`Wall ${i + 1} is too short (corners ${i + 1} and ${(i + 1) % count + 1} coincide)`);
+    }
+  }
+
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      const adjacent = j === i + 1 || (i === 0 && j === count - 1);
+      if (adjacent) continue;
+
+      if (segmentsIntersect(outline[i], outline[(i + 1) % count], outline[j], outline[(j + 1) % count])) {
+        throw new InvalidRoomError(`Room outline is self-intersecting (walls ${i + 1} and ${j + 1} cross)`);
+      }
+    }
+  }
+
+  if (Math.abs(signedArea(outline)) < 1) {
+    throw new InvalidRoomError('Room outline encloses no usable floor area');
+  }
+}
+
+const OPENING_GAP = 0.1;
+
+export function openingsOverlap(a: WallOpeningSpec, b: WallOpeningSpec): boolean {
+  return a.wallIndex === b.wallIndex &&
+         Math.abs(a.offset - b.offset) < (a.width + b.width) / 2 + OPENING_GAP;
+}
+
+export function findOpeningOffset(
+  wallLength: number,
+  width: number,
+  siblings: WallOpeningSpec[],
+  preferredOffset = wallLength / 2
+): number | null {
+  const min = width / 2 + 0.2;
+  const max = wallLength - width / 2 - 0.2;
+  if (min > max) return null;
+
+  const fits = (offset: number) => siblings.every(other =>
+    Math.abs(offset - other.offset) >= (width + other.width) / 2 + OPENING_GAP
+  );
+
+  const start = Math.max(min, Math.min(max, preferredOffset));
+  for (let step = 0; step <= wallLength * 10; step++) {
+    for (const candidate of [start + step * 0.1, start - step * 0.1]) {
+      if (candidate >= min && candidate <= max && fits(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+export function validateRoomSpec(spec: RoomSpec) {
+  validateRoomOutline(spec.outline);
+  if (!(spec.height >= MIN_ROOM_HEIGHT)) {
+    throw new InvalidRoomError(`Room height must be at least ${MIN_ROOM_HEIGHT} m`);
+  }
+
+  const walls = getWallSegments(spec.outline);
+  const openings = spec.openings.map(opening => {
+    const wall = walls[opening.wallIndex];
+    if (!wall) {
+      throw new InvalidRoomError(`${opening.kind} ${opening.id} refers to wall ${opening.wallIndex + 1}, which does not exist`);
+    }
+    return clampOpening(opening, wall.length, spec.height);
+  });
+
+  openings.forEach((opening, i) => {
+    const other = openings.slice(i + 1).find(candidate => openingsOverlap(opening, candidate));
+    if (other) {
+      throw new InvalidRoomError(`Openings ${opening.id} and ${other.id} overlap on wall ${opening.wallIndex + 1}`);
+    }
+  });
+}
+
+export function getWallSegments(outline: RoomPoint[]): WallSegment[] {
+  const inwardSign = signedArea(outline) >= 0 ? 1 : -1;
+
+  return outline.map((point, index) => {
+    const next = outline[(index + 1) % outline.length];
+    const start = new THREE.Vector3(point.x, 0, point.z);
+    const end = new THREE.Vector3(next.x, 0, next.z);
+    const direction = end.clone().sub(start);
+    const length = direction.length();
+    direction.normalize();
+
+    return {
+      index,
+      start,
+      end,
+      center: start.clone().add(end).multiplyScalar(0.5),
+      direction,
+      inward: new THREE.Vector3(-direction.z, 0, direction.x).multiplyScalar(inwardSign),
+      length,
+      rotationY: Math.atan2(-direction.z, direction.x)
+    };
+  });
+}
+
+export function getRoomBounds(outline: RoomPoint[]): RoomBounds {
+  return {
+    minX: Math.min(...outline.map(p => p.x)),
+    maxX: Math.max(...outline.map(p => p.x)),
+    minZ: Math.min(...outline.map(p => p.z)),
+    maxZ: Math.max(...outline.map(p => p.z))
+  };
+}
+
+export function isPointInOutline(x: number, z: number, outline: RoomPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const a = outline[i];
+    const b = outline[j];
+    if ((a.z > z) !== (b.z > z) && x < (b.x - a.x) * (z - a.z) / (b.z - a.z) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// The middle of the room's bounds, or when that lies outside (as in an L-shape) the middle of the widest stretch of
+// floor across the room at that depth.
+export function getRoomCenter(outline: RoomPoint[]): RoomPoint {
+  const bounds = getRoomBounds(outline);
+  const z = (bounds.minZ + bounds.maxZ) / 2;
+  const middle = { x: (bounds.minX + bounds.maxX) / 2, z };
+  if (isPointInOutline(middle.x, middle.z, outline)) return middle;
+
+  const crossings: number[] = [];
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const a = outline[i];
+    const b = outline[j];
+    if ((a.z > z) !== (b.z > z)) {
+      crossings.push((b.x - a.x) * (z - a.z) / (b.z - a.z) + a.x);
+    }
+  }
+  crossings.sort((a, b) => a - b);
+
+  let best = middle;
+  let widest = 0;
+  for (let i = 0; i + 1 < crossings.length; i += 2) {
+    if (crossings[i + 1] - crossings[i] > widest) {
+      widest = crossings[i + 1] - crossings[i];
+      best = { x: (crossings[i] + crossings[i + 1]) / 2, z };
+    }
+  }
+  return best;
+}
+
+export function resizeRoomSpec(spec: RoomSpec, width: number, depth: number): RoomSpec {
+  const bounds = getRoomBounds(spec.outline);
+  const scaleX = width / (bounds.maxX - bounds.minX);
+  const scaleZ = depth / (bounds.maxZ - bounds.minZ);
+  const centerX = (bounds.minX + bounds.maxX) / 2;
+  const centerZ = (bounds.minZ + bounds.maxZ) / 2;
+
+  const outline = spec.outline.map(point => ({
+    x: (point.x - centerX) * scaleX,
+    z: (point.z - centerZ) * scaleZ
+  }));
+
+  const oldWalls = getWallSegments(spec.outline);
+  const newWalls = getWallSegments(outline);
+  const openings = spec.openings.map(opening => ({
+    ...opening,
+    offset: opening.offset * (newWalls[opening.wallIndex]?.length ?? 0) / (oldWalls[opening.wallIndex]?.length || 1)
+  }));
+
+  return { height: spec.height, outline, openings };
+}
+
+export function parseOutline(text: string): RoomPoint[] {
+  return text
+    .split(';')
+    .map(pair => pair.trim())
+    .filter(pair => pair.length > 0)
+    .map((pair, i) => {
+      const [x, z] = pair.split(',').map(value => Number(value.trim()));
+      if (!Number.isFinite(x) || !Number.isFinite(z)) {
+        throw new InvalidRoomError(`Corner ${i + 1} ("${pair}") is not an "x, z" pair`);
+      }
+      return { x, z };
+    });
+}
+
+export function formatOutline(outline: RoomPoint[]): string {
+  return outline.map(point => `${+point.x.toFixed(2)}, ${+point.z.toFixed(2)}`).join('; ');
+}
+
+export function clampOpening(opening: WallOpeningSpec, wallLength: number, roomHeight: number): WallOpeningSpec {
+  const width = Math.max(0.3, Math.min(opening.width, wallLength - 0.4));
+  const sillHeight = Math.max(0, Math.min(opening.sillHeight, roomHeight - 0.5));
+  const height = Math.max(0.3, Math.min(opening.height, roomHeight - 0.2 - sillHeight));
+  const offset = Math.max(width / 2 + 0.2, Math.min(opening.offset, wallLength - width / 2 - 0.2));
+  return { ...opening, width, height, sillHeight, offset };
+}
+
+export function buildFloorGeometry(outline: RoomPoint[]): THREE.BufferGeometry {
+  // The floor mesh is rotated -90° around X, so shape-space y maps to world -z.
+  const shape = new THREE.Shape(outline.map(point => new THREE.Vector2(point.x, -point.z)));
+  const geometry = new THREE.ShapeGeometry(shape);
+
+  const bounds = getRoomBounds(outline);
+  const width = bounds.maxX - bounds.minX;
+  const depth = bounds.maxZ - bounds.minZ;
+  const position = geometry.getAttribute('position');
+  const uv = geometry.getAttribute('uv');
+  for (let i = 0; i < uv.count; i++) {
+    uv.setXY(i, (position.getX(i) - bounds.minX) / width, (position.getY(i) + bounds.maxZ) / depth);
+  }
+  uv.needsUpdate = true;
+
+  return geometry;
+}
+
+export function buildWallGeometry(length: number, height: number, openings: WallOpeningSpec[]): THREE.BufferGeometry {
+  const left = -length / 2;
+  const sorted = [...openings].sort((a, b) => a.offset - b.offset);
+
+  // Openings that reach the floor are cut into the outline; the rest become holes.
+  const shape = new THREE.Shape();
+  shape.moveTo(left, 0);
+  sorted
+    .filter(opening => opening.sillHeight <= 0.001)
+    .forEach(opening => {
+      const x0 = left + opening.offset - opening.width / 2;
+      const x1 = left + opening.offset + opening.width / 2;
+      shape.lineTo(x0, 0);
+      shape.lineTo(x0, opening.height);
+      shape.lineTo(x1, opening.height);
+      shape.lineTo(x1, 0);
+    });
+  shape.lineTo(-left, 0);
+  shape.lineTo(-left, height);
+  shape.lineTo(left, height);
+  shape.lineTo(left, 0);
+
+  sorted
+    .filter(opening => opening.sillHeight > 0.001)
+    .forEach(opening => {
+      const x0 = left + opening.offset - opening.width / 2;
+      const x1 = left + opening.offset + opening.width / 2;
+      const y0 = opening.sillHeight;
+      const y1 = opening.sillHeight + opening.height;
+      const hole = new THREE.Path();
+      hole.moveTo(x0, y0);
+      hole.lineTo(x0, y1);
+      hole.lineTo(x1, y1);
+      hole.lineTo(x1, y0);
+      hole.lineTo(x0, y0);
+      shape.holes.push(hole);
+    });
+
+  const geometry = new THREE.ShapeGeometry(shape);
+
+  const position = geometry.getAttribute('position');
+  const uv = geometry.getAttribute('uv');
+  for (let i = 0; i < uv.count; i++) {
+    uv.setXY(i, (position.getX(i) - left) / length, position.getY(i) / height);
+  }
+  uv.needsUpdate = true;
+
+  return geometry;
+}
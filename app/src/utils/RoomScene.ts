@@ -1,37 +1,132 @@
 import * as THREE from 'three';
 
-import { FurnitureObject, SceneObject } from '../types/FurnitureObject';
+import { FurnitureDefinition, FurnitureParams } from '../types/FurnitureCatalog';
+import { FurnitureObject, FurnitureType, SceneObject } from '../types/FurnitureObject';
+import { DEFAULT_FLOOR_MATERIAL, DEFAULT_WALL_MATERIAL } from '../config/materials';
+import { DEFAULT_SURFACE_UV, SurfaceUv, TileSize } from '../types/Material';
+import { CameraBookmark, FurnitureDesign, ROOM_DESIGN_VERSION, RoomDesign, Vector3Data } from '../types/RoomDesign';
+import { DEFAULT_OPENING_SIZES, DEFAULT_ROOM_SPEC, OpeningKind, RoomSpec, WallOpeningSpec } from '../types/RoomSpec';
 
+import {
+  FurnitureCollision,
+  computeFootprint,
+  computeLocalBounds,
+  findWallCollision,
+  footprintsOverlap
+} from './Collision';
+import { FurnitureCatalog, furnitureCatalog } from './FurnitureCatalog';
+import {
+  DEFAULT_SNAP_SETTINGS,
+  SnapGuide,
+  SnapSettings,
+  findAlignment,
+  findWallSnap,
+  snapToGrid
+} from './Snapping';
 import { FurnitureFactory } from './FurnitureFactory';
+import {
+  MaterialLibrary,
+  MaterialSet,
+  MaterialSnapshot,
+  applyMaterialSet,
+  bakeSurfaceUv,
+  captureMaterial,
+  cloneSurfaceUv,
+  restoreMaterial
+} from './MaterialLibrary';
+import { ModelImporter } from './ModelImporter';
+import {
+  InvalidRoomError,
+  RoomBounds,
+  WallSegment,
+  buildFloorGeometry,
+  buildWallGeometry,
+  clampOpening,
+  cloneRoomSpec,
+  findOpeningOffset,
+  getRoomBounds,
+  getWallSegments,
+  openingsOverlap,
+  signedArea,
+  validateRoomSpec
+} from './RoomGeometry';
+import { WalkSegment, buildWalkObstacles } from './Walkthrough';
+
+function toVector3Data(v: THREE.Vector3 | THREE.Euler): Vector3Data {
+  return { x: v.x, y: v.y, z: v.z };
+}
+
+// A piece's own material plus overrides for named parts such as "seat" or "legs".
+export interface FurnitureMaterials {
+  base: MaterialSet | null;
+  parts: Map<string, MaterialSet>;
+}
+
+export interface TextureState {
+  url: string | null;
+  materials: Map<THREE.MeshStandardMaterial, MaterialSnapshot>;
+  floor?: MaterialSet | null;
+  walls?: {
+    base: MaterialSet | null;
+    overrides: Map<number, MaterialSet>;
+  };
+  furniture?: FurnitureMaterials;
+}
+
+export interface CaptureImageOptions {
+  camera?: THREE.Camera;
+  transparent?: boolean;
+}
 
 export class RoomScene {
   private canvas: HTMLCanvasElement;
   private renderer: THREE.WebGLRenderer;
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
+  private activeCamera: THREE.Camera;
   private raycaster: THREE.Raycaster;
   private mouse: THREE.Vector2;
   
-  private textureLoader: THREE.TextureLoader;
+  private materialLibrary: MaterialLibrary;
+  private furnitureCatalog: FurnitureCatalog;
   private furnitureFactory: FurnitureFactory;
+  private modelImporter: ModelImporter;
   
   private floor: THREE.Mesh | null = null;
   private walls: THREE.Group | null = null;
+  private fixtures: THREE.Group | null = null;
+  private roomSpec: RoomSpec = cloneRoomSpec(DEFAULT_ROOM_SPEC);
   private furniture: FurnitureObject[] = [];
   private sceneObjects: SceneObject[] = [];
+  private allowOverlap = false;
+  private snapSettings: SnapSettings = { ...DEFAULT_SNAP_SETTINGS };
+  private snapGuides: THREE.Group;
+  private helpers = new Set<THREE.Object3D>();
   private selectedObject: SceneObject | null = null;
   
+  private floorMaterial: MaterialSet | null = null;
+  private wallMaterial: MaterialSet | null = null;
+  private wallMaterialOverrides = new Map<number, MaterialSet>();
+  private furnitureMaterials = new WeakMap<FurnitureObject, FurnitureMaterials>();
+  private floorUv = cloneSurfaceUv(DEFAULT_SURFACE_UV);
+  private wallUv = cloneSurfaceUv(DEFAULT_SURFACE_UV);
+  private wallUvOverrides = new Map<number, SurfaceUv>();
+  
   private ambientLight: THREE.AmbientLight;
   private directionalLight: THREE.DirectionalLight;
+  private lightDirection = new THREE.Vector3(-0.5, -1, -0.5);
   
   public shadowsEnabled = true;
+  
+  private changeListeners: (() => void)[] = [];
 
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(canvas: HTMLCanvasElement, catalog: FurnitureCatalog = furnitureCatalog) {
     this.canvas = canvas;
     
     this.renderer = new THREE.WebGLRenderer({ 
       canvas,
-      antialias: true 
+      antialias: true,
+      alpha: true
     });
     this.renderer.setSize(canvas.width, canvas.height);
     this.renderer.setPixelRatio(window.devicePixelRatio);
@@ -49,14 +144,20 @@ export class RoomScene {
     );
     this.camera.position.set(8, 6, 8);
     this.camera.lookAt(0, 1, 0);
+    this.activeCamera = this.camera;
     
     this.raycaster = new THREE.Raycaster();
     this.mouse = new THREE.Vector2();
     
-    this.textureLoader = new THREE.TextureLoader();
-    this.textureLoader.setCrossOrigin('anonymous');
+    this.materialLibrary = new MaterialLibrary();
     
-    this.furnitureFactory = new FurnitureFactory();
+    this.furnitureCatalog = catalog;
+    this.furnitureFactory = new FurnitureFactory(catalog);
+    
+    this.snapGuides = new THREE.Group();
+    this.snapGuides.name = 'snapGuides';
+    this.scene.add(this.snapGuides);
+    this.modelImporter = new ModelImporter(catalog);
     
     this.ambientLight = new THREE.AmbientLight(0x4d4d59, 0.3);
     this.scene.add(this.ambientLight);
@@ -83,10 +184,10 @@ export class RoomScene {
   }
 
   private createRoom() {
-    const floorGeometry = new THREE.PlaneGeometry(20, 20);
+    const floorGeometry = buildFloorGeometry(this.roomSpec.outline);
     const floorMaterial = new THREE.MeshStandardMaterial({ 
       color: 0xffffff,
-      metalness: 0.1,
+      metalness: 0,
       roughness: 0.9
     });
     this.floor = new THREE.Mesh(floorGeometry, floorMaterial);
@@ -95,191 +196,252 @@ export class RoomScene {
     this.floor.name = 'floor';
     this.scene.add(this.floor);
     
-    this.createProceduralFloorTexture();
+    this.setDefaultFloorMaterial();
     
     this.walls = new THREE.Group();
     this.walls.name = 'walls';
+    this.scene.add(this.walls);
+    
+    this.fixtures = new THREE.Group();
+    this.fixtures.name = 'fixtures';
+    this.scene.add(this.fixtures);
     
-    const wallMaterial = new THREE.MeshPhongMaterial({ 
+    this.buildWalls();
+    this.updateShadowBounds();
+    
+    this.setDefaultWallMaterial();
+  }
+
+  private buildWalls() {
+    const wallMaterial = new THREE.MeshStandardMaterial({ 
       color: 0xffffff,
       side: THREE.DoubleSide,
-      specular: 0x111111,
-      shininess: 30
+      roughness: 0.9,
+      metalness: 0
     });
     
-    const size = 10;
-    const height = 5;
+    this.sceneObjects = this.sceneObjects.filter(obj => obj.type !== 'opening' && obj.type !== 'wall');
+    const clockwise = signedArea(this.roomSpec.outline) < 0;
     
-    const windowWidth = 3;
-    const windowHeight = 2;
-    const windowY = 2.5;
+    getWallSegments(this.roomSpec.outline).forEach(segment => {
+      const openings = this.roomSpec.openings
+        .filter(opening => opening.wallIndex === segment.index)
+        .map(opening => clampOpening(opening, segment.length, this.roomSpec.height));
+      
+      const wall = new THREE.Mesh(
+        buildWallGeometry(segment.length, this.roomSpec.height, openings),
+        wallMaterial.clone()
+      );
+      wall.position.copy(segment.center);
+      wall.rotation.y = segment.rotationY;
+      wall.receiveShadow = this.shadowsEnabled;
+      wall.name = `wall_${segment.index}`;
+      wall.userData.wallIndex = segment.index;
+      wall.userData.wallWidth = segment.length;
+      wall.userData.wallHeight = this.roomSpec.height;
+      this.walls!.add(wall);
+      
+      this.sceneObjects.push({
+        id: `wall_${segment.index}`,
+        name: `Wall ${segment.index + 1}`,
+        type: 'wall',
+        object: wall,
+        selected: false,
+        wallIndex: segment.index
+      });
+      
+      const facing = clockwise ? segment.rotationY + Math.PI : segment.rotationY;
+      openings.forEach(opening => {
+        const along = segment.start.clone().addScaledVector(segment.direction, opening.offset);
+        let group: THREE.Group;
+        if (opening.kind === 'window') {
+          const position = along.addScaledVector(segment.inward, 0.01);
+          group = this.createWindow(
+            position.x,
+            opening.sillHeight + opening.height / 2,
+            position.z,
+            opening.width,
+            opening.height,
+            facing
+          );
+        } else {
+          const position = along.addScaledVector(segment.inward, 0.2);
+          group = this.createDoor(position.x, 0, position.z, opening.width, opening.height, facing + Math.PI);
+        }
+        group.userData.openingId = opening.id;
+        
+        const kindName = opening.kind === 'window' ? 'Window' : 'Door';
+        this.sceneObjects.push({
+          id: opening.id,
+          name: `${kindName} (wall ${segment.index + 1})`,
+          type: 'opening',
+          object: group,
+          selected: false,
+          openingId: opening.id
+        });
+      });
+    });
+  }
+
+  private updateShadowBounds() {
+    const bounds = getRoomBounds(this.roomSpec.outline);
+    const extent = Math.max(
+      Math.abs(bounds.minX), Math.abs(bounds.maxX),
+      Math.abs(bounds.minZ), Math.abs(bounds.maxZ)
+    ) + 5;
+    const shadowCamera = this.directionalLight.shadow.camera;
+    shadowCamera.left = -extent;
+    shadowCamera.right = extent;
+    shadowCamera.top = extent;
+    shadowCamera.bottom = -extent;
+    shadowCamera.updateProjectionMatrix();
+  }
+
+  private applyFloorMaterial() {
+    if (!this.floor || !this.floorMaterial) return;
     
-    const backLeftWall = new THREE.Mesh(
-      new THREE.PlaneGeometry((size * 2 - windowWidth) / 2, height),
-      wallMaterial.clone()
-    );
-    backLeftWall.position.set(-(size * 2 - windowWidth) / 4 - windowWidth / 2, height / 2, -size);
-    backLeftWall.receiveShadow = true;
-    this.walls.add(backLeftWall);
+    const bounds = getRoomBounds(this.roomSpec.outline);
+    const size = new THREE.Vector2(bounds.maxX - bounds.minX, bounds.maxZ - bounds.minZ);
+    applyMaterialSet(this.floor.material as THREE.MeshStandardMaterial, this.floorMaterial, size, this.floorUv);
+  }
+
+  public getRoomSpec(): RoomSpec {
+    return cloneRoomSpec(this.roomSpec);
+  }
+
+  public getRoomBounds(): RoomBounds {
+    return getRoomBounds(this.roomSpec.outline);
+  }
+
+  public getWallSegments(): WallSegment[] {
+    return getWallSegments(this.roomSpec.outline);
+  }
+
+  public setRoomSpec(spec: RoomSpec) {
+    validateRoomSpec(spec);
+    if (!this.floor || !this.walls || !this.fixtures) return;
     
-    const backRightWall = new THREE.Mesh(
-      new THREE.PlaneGeometry((size * 2 - windowWidth) / 2, height),
-      wallMaterial.clone()
-    );
-    backRightWall.position.set((size * 2 - windowWidth) / 4 + windowWidth / 2, height / 2, -size);
-    backRightWall.receiveShadow = true;
-    this.walls.add(backRightWall);
+    this.roomSpec = cloneRoomSpec(spec);
     
-    const backTopWall = new THREE.Mesh(
-      new THREE.PlaneGeometry(windowWidth, height - windowY - windowHeight / 2),
-      wallMaterial.clone()
-    );
-    backTopWall.position.set(0, windowY + windowHeight / 2 + (height - windowY - windowHeight / 2) / 2, -size);
-    backTopWall.receiveShadow = true;
-    this.walls.add(backTopWall);
+    // Wall and opening objects are recreated below, so selection is carried over by id.
+    const rebuiltSelectionId = this.selectedObject?.type === 'wall' || this.selectedObject?.type === 'opening'
+      ? this.selectedObject.id
+      : null;
     
-    const backBottomWall = new THREE.Mesh(
-      new THREE.PlaneGeometry(windowWidth, windowY - windowHeight / 2),
-      wallMaterial.clone()
-    );
-    backBottomWall.position.set(0, (windowY - windowHeight / 2) / 2, -size);
-    backBottomWall.receiveShadow = true;
-    this.walls.add(backBottomWall);
+    this.floor.geometry.dispose();
+    this.floor.geometry = buildFloorGeometry(spec.outline);
+    this.applyFloorMaterial();
     
-    this.createWindow(0, windowY, -size + 0.01, windowWidth, windowHeight, 0);
+    this.disposeChildren(this.walls);
+    this.disposeChildren(this.fixtures);
+    this.buildWalls();
     
-    const rightWindowWidth = 2.5;
-    const rightWindowHeight = 2;
-    const rightWindowY = 2.5;
+    this.wallMaterialOverrides.forEach((_, wallIndex) => {
+      if (wallIndex >= spec.outline.length) {
+        this.wallMaterialOverrides.delete(wallIndex);
+      }
+    });
+    this.wallUvOverrides.forEach((_, wallIndex) => {
+      if (wallIndex >= spec.outline.length) {
+        this.wallUvOverrides.delete(wallIndex);
+      }
+    });
+    this.applyWallMaterials();
     
-    const rightLeftWall = new THREE.Mesh(
-      new THREE.PlaneGeometry((size * 2 - rightWindowWidth) / 2, height),
-      wallMaterial.clone()
-    );
-    rightLeftWall.position.set(size, height / 2, -(size * 2 - rightWindowWidth) / 4 - rightWindowWidth / 2);
-    rightLeftWall.rotation.y = -Math.PI / 2;
-    rightLeftWall.receiveShadow = true;
-    this.walls.add(rightLeftWall);
-    
-    const rightRightWall = new THREE.Mesh(
-      new THREE.PlaneGeometry((size * 2 - rightWindowWidth) / 2, height),
-      wallMaterial.clone()
-    );
-    rightRightWall.position.set(size, height / 2, (size * 2 - rightWindowWidth) / 4 + rightWindowWidth / 2);
-    rightRightWall.rotation.y = -Math.PI / 2;
-    rightRightWall.receiveShadow = true;
-    this.walls.add(rightRightWall);
-    
-    const rightTopWall = new THREE.Mesh(
-      new THREE.PlaneGeometry(rightWindowWidth, height - rightWindowY - rightWindowHeight / 2),
-      wallMaterial.clone()
-    );
-    rightTopWall.position.set(size, rightWindowY + rightWindowHeight / 2 + (height - rightWindowY - rightWindowHeight / 2) / 2, 0);
-    rightTopWall.rotation.y = -Math.PI / 2;
-    rightTopWall.receiveShadow = true;
-    this.walls.add(rightTopWall);
-    
-    const rightBottomWall = new THREE.Mesh(
-      new THREE.PlaneGeometry(rightWindowWidth, rightWindowY - rightWindowHeight / 2),
-      wallMaterial.clone()
-    );
-    rightBottomWall.position.set(size, (rightWindowY - rightWindowHeight / 2) / 2, 0);
-    rightBottomWall.rotation.y = -Math.PI / 2;
-    rightBottomWall.receiveShadow = true;
-    this.walls.add(rightBottomWall);
+    this.updateShadowBounds();
     
-    this.createWindow(size - 0.01, rightWindowY, 0, rightWindowWidth, rightWindowHeight, -Math.PI / 2);
+    this.sceneObjects
+      .filter(obj => obj.selected && (obj.type === 'floor' || obj.type === 'walls'))
+      .forEach(obj => this.updateSelectionHighlight(obj, true));
     
-    const leftWindowWidth = 2.5;
-    const leftWindowHeight = 2;
-    const leftWindowY = 2.5;
+    if (rebuiltSelectionId) {
+      const rebuiltObj = this.sceneObjects.find(obj => obj.id === rebuiltSelectionId) ?? null;
+      this.selectedObject = rebuiltObj;
+      if (rebuiltObj) {
+        rebuiltObj.selected = true;
+        this.updateSelectionHighlight(rebuiltObj, true);
+      }
+    }
     
-    const leftLeftWall = new THREE.Mesh(
-      new THREE.PlaneGeometry((size * 2 - leftWindowWidth) / 2, height),
-      wallMaterial.clone()
-    );
-    leftLeftWall.position.set(-size, height / 2, (size * 2 - leftWindowWidth) / 4 + leftWindowWidth / 2);
-    leftLeftWall.rotation.y = Math.PI / 2;
-    leftLeftWall.receiveShadow = true;
-    this.walls.add(leftLeftWall);
-    
-    const leftRightWall = new THREE.Mesh(
-      new THREE.PlaneGeometry((size * 2 - leftWindowWidth) / 2, height),
-      wallMaterial.clone()
-    );
-    leftRightWall.position.set(-size, height / 2, -(size * 2 - leftWindowWidth) / 4 - leftWindowWidth / 2);
-    leftRightWall.rotation.y = Math.PI / 2;
-    leftRightWall.receiveShadow = true;
-    this.walls.add(leftRightWall);
-    
-    const leftTopWall = new THREE.Mesh(
-      new THREE.PlaneGeometry(leftWindowWidth, height - leftWindowY - leftWindowHeight / 2),
-      wallMaterial.clone()
-    );
-    leftTopWall.position.set(-size, leftWindowY + leftWindowHeight / 2 + (height - leftWindowY - leftWindowHeight / 2) / 2, 0);
-    leftTopWall.rotation.y = Math.PI / 2;
-    leftTopWall.receiveShadow = true;
-    this.walls.add(leftTopWall);
-    
-    const leftBottomWall = new THREE.Mesh(
-      new THREE.PlaneGeometry(leftWindowWidth, leftWindowY - leftWindowHeight / 2),
-      wallMaterial.clone()
-    );
-    leftBottomWall.position.set(-size, (leftWindowY - leftWindowHeight / 2) / 2, 0);
-    leftBottomWall.rotation.y = Math.PI / 2;
-    leftBottomWall.receiveShadow = true;
-    this.walls.add(leftBottomWall);
+    console.log(`🏠 Room rebuilt: ${spec.outline.length} walls, ${spec.height} m high`);
+    this.notifyChange();
+  }
+
+  public getOpening(id: string): WallOpeningSpec | null {
+    const opening = this.roomSpec.openings.find(o => o.id === id);
+    return opening ? { ...opening } : null;
+  }
+
+  public addOpening(kind: OpeningKind, wallIndex: number): WallOpeningSpec {
+    const wall = this.getWallSegments()[wallIndex];
+    if (!wall) {
+      throw new InvalidRoomError(`Wall ${wallIndex + 1} does not exist`);
+    }
     
-    this.createWindow(-size + 0.01, leftWindowY, 0, leftWindowWidth, leftWindowHeight, Math.PI / 2);
+    const size = DEFAULT_OPENING_SIZES[kind];
+    const siblings = this.roomSpec.openings.filter(o => o.wallIndex === wallIndex);
+    const offset = findOpeningOffset(wall.length, size.width, siblings);
+    if (offset === null) {
+      throw new InvalidRoomError(`There is no free space for a ${kind} on wall ${wallIndex + 1}`);
+    }
     
-    const doorWidth = 2;
-    const doorHeight = 3.5;
+    let id = '';
+    for (let n = this.roomSpec.openings.length; !id || this.roomSpec.openings.some(o => o.id === id); n++) {
+      id = `opening_${n}`;
+    }
     
-    const leftWallWidth = size - doorWidth / 2;
-    const frontLeftWall = new THREE.Mesh(
-      new THREE.PlaneGeometry(leftWallWidth, height),
-      wallMaterial.clone()
-    );
-    frontLeftWall.position.set(-size + leftWallWidth / 2, height / 2, size);
-    frontLeftWall.rotation.y = Math.PI;
-    frontLeftWall.receiveShadow = true;
-    this.walls.add(frontLeftWall);
-    
-    const rightWallWidth = size - doorWidth / 2;
-    const frontRightWall = new THREE.Mesh(
-      new THREE.PlaneGeometry(rightWallWidth, height),
-      wallMaterial.clone()
-    );
-    frontRightWall.position.set(size - rightWallWidth / 2, height / 2, size);
-    frontRightWall.rotation.y = Math.PI;
-    frontRightWall.receiveShadow = true;
-    this.walls.add(frontRightWall);
-    
-    const topWallHeight = height - doorHeight;
-    const frontTopWall = new THREE.Mesh(
-      new THREE.PlaneGeometry(doorWidth, topWallHeight),
-      wallMaterial.clone()
-    );
-    frontTopWall.position.set(0, doorHeight + topWallHeight / 2, size);
-    frontTopWall.rotation.y = Math.PI;
-    frontTopWall.receiveShadow = true;
-    this.walls.add(frontTopWall);
+    const opening = clampOpening({ id, kind, wallIndex, offset, ...size }, wall.length, this.roomSpec.height);
+    this.setRoomSpec({ ...this.roomSpec, openings: [...this.roomSpec.openings, opening] });
+    return { ...opening };
+  }
+
+  public updateOpening(id: string, changes: Partial<Omit<WallOpeningSpec, 'id' | 'kind'>>): boolean {
+    const current = this.roomSpec.openings.find(o => o.id === id);
+    if (!current) return false;
     
-    this.scene.add(this.walls);
+    const wall = this.getWallSegments()[changes.wallIndex ?? current.wallIndex];
+    if (!wall) return false;
     
-    this.createDoor(0, 0, size - 0.2, doorWidth, doorHeight);
+    const updated = clampOpening({ ...current, ...changes }, wall.length, this.roomSpec.height);
+    const blocked = this.roomSpec.openings.some(o => o.id !== id && openingsOverlap(o, updated));
+    if (blocked) return false;
     
-    this.createProceduralWallTexture();
+    this.setRoomSpec({
+      ...this.roomSpec,
+      openings: this.roomSpec.openings.map(o => (o.id === id ? updated : o))
+    });
+    return true;
+  }
+
+  public removeOpening(id: string) {
+    if (this.selectedObject?.openingId === id) {
+      this.clearSelection();
+    }
+    this.setRoomSpec({
+      ...this.roomSpec,
+      openings: this.roomSpec.openings.filter(o => o.id !== id)
+    });
+  }
+
+  private disposeChildren(group: THREE.Group) {
+    group.traverse(child => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        const materials = Array.isArray(child.material) ? child.material : [child.material];
+        materials.forEach(material => material.dispose());
+      }
+    });
+    group.clear();
   }
 
-  private createWindow(x: number, y: number, z: number, width: number, height: number, rotationY: number) {
+  private createWindow(x: number, y: number, z: number, width: number, height: number, rotationY: number): THREE.Group {
     const windowGroup = new THREE.Group();
     windowGroup.name = 'window';
     
-    const frameMaterial = new THREE.MeshPhongMaterial({
+    const frameMaterial = new THREE.MeshStandardMaterial({
       color: 0x8b4513,
-      specular: 0x222222,
-      shininess: 20
+      roughness: 0.6,
+      metalness: 0
     });
     
     const frameThickness = 0.15;
@@ -313,12 +475,12 @@ export class RoomScene {
     rightFrame.position.set(width / 2, 0, 0);
     windowGroup.add(rightFrame);
     
-    const glassMaterial = new THREE.MeshPhongMaterial({
+    const glassMaterial = new THREE.MeshStandardMaterial({
       color: 0x87ceeb,
       transparent: true,
       opacity: 0.3,
-      specular: 0xffffff,
-      shininess: 100
+      roughness: 0.05,
+      metalness: 0
     });
     
     const glass = new THREE.Mesh(
@@ -328,10 +490,10 @@ export class RoomScene {
     glass.position.z = frameDepth / 2 + 0.01;
     windowGroup.add(glass);
     
-    const sillMaterial = new THREE.MeshPhongMaterial({
+    const sillMaterial = new THREE.MeshStandardMaterial({
       color: 0xffffff,
-      specular: 0x111111,
-      shininess: 30
+      roughness: 0.5,
+      metalness: 0
     });
     
     const sill = new THREE.Mesh(
@@ -346,17 +508,18 @@ export class RoomScene {
     windowGroup.receiveShadow = true;
     windowGroup.castShadow = true;
     
-    this.scene.add(windowGroup);
+    this.fixtures?.add(windowGroup);
+    return windowGroup;
   }
 
-  private createDoor(x: number, y: number, z: number, width: number, height: number) {
+  private createDoor(x: number, y: number, z: number, width: number, height: number, rotationY: number): THREE.Group {
     const doorGroup = new THREE.Group();
     doorGroup.name = 'door';
     
-    const frameMaterial = new THREE.MeshPhongMaterial({
+    const frameMaterial = new THREE.MeshStandardMaterial({
       color: 0x8b4513,
-      specular: 0x222222,
-      shininess: 20
+      roughness: 0.6,
+      metalness: 0
     });
     
     const frameThickness = 0.2;
@@ -383,10 +546,10 @@ export class RoomScene {
     topFrame.position.set(0, height + frameThickness / 2, 0);
     doorGroup.add(topFrame);
     
-    const doorMaterial = new THREE.MeshPhongMaterial({
+    const doorMaterial = new THREE.MeshStandardMaterial({
       color: 0x654321,
-      specular: 0x111111,
-      shininess: 25
+      roughness: 0.6,
+      metalness: 0
     });
     
     const doorPanel = new THREE.Mesh(
@@ -398,10 +561,10 @@ export class RoomScene {
     doorPanel.receiveShadow = true;
     doorGroup.add(doorPanel);
     
-    const handleMaterial = new THREE.MeshPhongMaterial({
+    const handleMaterial = new THREE.MeshStandardMaterial({
       color: 0xc0c0c0,
-      specular: 0xffffff,
-      shininess: 100
+      roughness: 0.25,
+      metalness: 1
     });
     
     const handle = new THREE.Mesh(
@@ -413,88 +576,129 @@ export class RoomScene {
     doorGroup.add(handle);
     
     doorGroup.position.set(x, y, z);
+    doorGroup.rotation.y = rotationY;
     doorGroup.receiveShadow = true;
     doorGroup.castShadow = true;
     
-    this.scene.add(doorGroup);
+    this.fixtures?.add(doorGroup);
+    return doorGroup;
   }
 
-  private createProceduralFloorTexture() {
-    if (!this.floor) return;
-    
-    const canvas = document.createElement('canvas');
-    canvas.width = 512;
-    canvas.height = 512;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    const plankWidth = 64;
-    const plankHeight = 8;
-    
-    for (let y = 0; y < canvas.height; y++) {
-      for (let x = 0; x < canvas.width; x++) {
-        const plankY = Math.floor(y / plankHeight);
-        const localX = x % plankWidth;
-        const localY = y % plankHeight;
-        
-        const grain = Math.sin(localX * 0.3 + plankY * 13) * 8;
-        const knots = Math.sin(localX * 0.1) * Math.sin(localY * 0.5) * 5;
-        
-        const base = 120 + grain + knots + (Math.random() - 0.5) * 15;
-        
-        const borderSize = 2;
-        const isBorder = localX < borderSize || localX >= plankWidth - borderSize || 
-                         localY < borderSize || localY >= plankHeight - borderSize;
-        
-        const r = isBorder ? base * 0.5 : base * 0.7;
-        const g = isBorder ? base * 0.4 : base * 0.5;
-        const b = isBorder ? base * 0.3 : base * 0.35;
-        
-        ctx.fillStyle = `rgb(${r},${g},${b})`;
-        ctx.fillRect(x, y, 1, 1);
-      }
-    }
-    
-    const texture = new THREE.CanvasTexture(canvas);
-    texture.wrapS = THREE.RepeatWrapping;
-    texture.wrapT = THREE.RepeatWrapping;
-    texture.repeat.set(10, 10);
-    
-    const material = this.floor.material as THREE.MeshStandardMaterial;
-    material.map = texture;
-    material.needsUpdate = true;
+  // The built-in defaults carry no reference, so designs keep saving null for them.
+  private setDefaultFloorMaterial() {
+    this.floorMaterial = { ...this.materialLibrary.createProcedural(DEFAULT_FLOOR_MATERIAL), ref: null };
+    this.applyFloorMaterial();
+  }
+
+  private setDefaultWallMaterial() {
+    this.wallMaterial = { ...this.materialLibrary.createProcedural(DEFAULT_WALL_MATERIAL), ref: null };
+    this.wallMaterialOverrides.clear();
+    this.applyWallMaterials();
   }
 
-  private createProceduralWallTexture() {
+  private applyWallMaterials() {
     if (!this.walls) return;
     
-    const texture = this.createProceduralTexture('brick');
-    if (!texture) return;
-    
-    texture.wrapS = THREE.RepeatWrapping;
-    texture.wrapT = THREE.RepeatWrapping;
-    
-    const brickWidth = 1.5;
-    const brickHeight = 1.5;
-    
     this.walls.children.forEach(child => {
       if (child instanceof THREE.Mesh) {
-        const geometry = child.geometry as THREE.PlaneGeometry;
-        const material = child.material as THREE.MeshPhongMaterial;
+        const wallMaterial = this.wallMaterialOverrides.get(child.userData.wallIndex) ?? this.wallMaterial;
+        if (!wallMaterial) return;
         
-        const wallWidth = geometry.parameters.width;
-        const wallHeight = geometry.parameters.height;
-        
-        const repeatX = wallWidth / brickWidth;
-        const repeatY = wallHeight / brickHeight;
-        
-        material.map = texture.clone();
-        material.map.repeat.set(repeatX, repeatY);
-        material.needsUpdate = true;
+        const wallWidth: number = child.userData.wallWidth;
+        const wallHeight: number = child.userData.wallHeight;
+        const uv = this.wallUvOverrides.get(child.userData.wallIndex) ?? this.wallUv;
+        applyMaterialSet(child.material as THREE.MeshStandardMaterial, wallMaterial, new THREE.Vector2(wallWidth, wallHeight), uv);
       }
     });
   }
 
+  // Each mesh repeats the textures over its two largest dimensions, so a tile covers the same area everywhere.
+  // Parts without an override take the piece's material; with neither they keep the colours they were built with.
+  private applyFurnitureMaterials(furniture: FurnitureObject) {
+    const materials = this.furnitureMaterials.get(furniture);
+    if (!materials) return;
+    
+    furniture.group.updateMatrixWorld(true);
+    furniture.group.traverse(child => {
+      if (!(child instanceof THREE.Mesh) || !(child.material instanceof THREE.MeshStandardMaterial)) return;
+      const set = materials.parts.get(child.userData.part) ?? materials.base;
+      if (!set) return;
+      
+      child.geometry.computeBoundingBox();
+      const size = child.geometry.boundingBox!.getSize(new THREE.Vector3())
+        .multiply(child.getWorldScale(new THREE.Vector3()));
+      const [first, second] = [size.x, size.y, size.z].sort((a, b) => b - a);
+      applyMaterialSet(child.material, set, new THREE.Vector2(first, second), furniture.uv);
+    });
+  }
+
+  // Stores the materials and mirrors their references onto the piece so designs and copies keep them.
+  private setFurnitureMaterials(furniture: FurnitureObject, materials: FurnitureMaterials) {
+    this.furnitureMaterials.set(furniture, materials);
+    furniture.textureUrl = materials.base?.ref ?? undefined;
+    furniture.partTextureUrls = {};
+    materials.parts.forEach((set, part) => {
+      if (set.ref) furniture.partTextureUrls![part] = set.ref;
+    });
+  }
+
+  // A single wall without its own tiling follows the walls' shared one and reports null.
+  public getSurfaceUv(target: SceneObject): SurfaceUv | null {
+    let uv: SurfaceUv | undefined;
+    if (target.type === 'floor') {
+      uv = this.floorUv;
+    } else if (target.type === 'walls') {
+      uv = this.wallUv;
+    } else if (target.type === 'wall' && target.wallIndex !== undefined) {
+      uv = this.wallUvOverrides.get(target.wallIndex);
+    } else if (target.furnitureRef) {
+      uv = target.furnitureRef.uv ?? DEFAULT_SURFACE_UV;
+    }
+    return uv ? cloneSurfaceUv(uv) : null;
+  }
+
+  // The tiling actually in effect, plus the tile size it lays out, falling back to the material's own.
+  public resolveSurfaceUv(target: SceneObject): { uv: SurfaceUv; tileSize: TileSize } {
+    const uv = this.getSurfaceUv(target) ?? cloneSurfaceUv(this.wallUv);
+    let material: MaterialSet | null | undefined = null;
+    if (target.type === 'floor') {
+      material = this.floorMaterial;
+    } else if (target.type === 'walls') {
+      material = this.wallMaterial;
+    } else if (target.type === 'wall' && target.wallIndex !== undefined) {
+      material = this.wallMaterialOverrides.get(target.wallIndex) ?? this.wallMaterial;
+    } else if (target.furnitureRef) {
+      material = this.furnitureMaterials.get(target.furnitureRef)?.base;
+    }
+    const tileSize = uv.tileSize ?? (material
+      ? { width: material.tileSize.x, height: material.tileSize.y }
+      : { width: 1, height: 1 });
+    return { uv, tileSize: { ...tileSize } };
+  }
+
+  // Null resets the surface, or for a single wall drops its own tiling so it follows the other walls again.
+  public setSurfaceUv(target: SceneObject, uv: SurfaceUv | null) {
+    const value = cloneSurfaceUv(uv ?? DEFAULT_SURFACE_UV);
+    if (target.type === 'floor') {
+      this.floorUv = value;
+      this.applyFloorMaterial();
+    } else if (target.type === 'walls') {
+      this.wallUv = value;
+      this.applyWallMaterials();
+    } else if (target.type === 'wall' && target.wallIndex !== undefined) {
+      if (uv) {
+        this.wallUvOverrides.set(target.wallIndex, value);
+      } else {
+        this.wallUvOverrides.delete(target.wallIndex);
+      }
+      this.applyWallMaterials();
+    } else if (target.furnitureRef) {
+      target.furnitureRef.uv = value;
+      this.applyFurnitureMaterials(target.furnitureRef);
+    }
+    this.notifyChange();
+  }
+
   private initializeSceneObjects() {
     if (this.floor) {
       this.sceneObjects.push({
@@ -517,6 +721,14 @@ export class RoomScene {
     }
   }
 
+  public onChange(listener: () => void) {
+    this.changeListeners.push(listener);
+  }
+
+  public notifyChange() {
+    this.changeListeners.forEach(listener => listener());
+  }
+
   public updateAspect() {
     this.camera.aspect = this.canvas.width / this.canvas.height;
     this.camera.updateProjectionMatrix();
@@ -524,7 +736,68 @@ export class RoomScene {
   }
 
   public render() {
-    this.renderer.render(this.scene, this.camera);
+    this.renderer.render(this.scene, this.activeCamera);
+  }
+
+  // Renders one frame at the given pixel size with editor overlays and selection highlights hidden.
+  public captureImage(width: number, height: number, options: CaptureImageOptions = {}): HTMLCanvasElement {
+    const camera = this.createCaptureCamera(options.camera ?? this.activeCamera, width / height);
+    const size = this.renderer.getSize(new THREE.Vector2());
+    const pixelRatio = this.renderer.getPixelRatio();
+    const background = this.scene.background;
+    const clearColor = this.renderer.getClearColor(new THREE.Color());
+    const clearAlpha = this.renderer.getClearAlpha();
+    const hidden = [...this.helpers, this.snapGuides].filter(helper => helper.visible);
+    const selection = this.getSelection();
+
+    hidden.forEach(helper => helper.visible = false);
+    selection.forEach(obj => this.updateSelectionHighlight(obj, false));
+    if (options.transparent) {
+      this.scene.background = null;
+      this.renderer.setClearColor(0x000000, 0);
+    }
+
+    try {
+      this.renderer.setPixelRatio(1);
+      this.renderer.setSize(width, height, false);
+      const gl = this.renderer.getContext();
+      if (gl.drawingBufferWidth < width || gl.drawingBufferHeight < height) {
+        throw new Error(`${width} × ${height} is larger than this graphics card can render (max ${gl.drawingBufferWidth} × ${gl.drawingBufferHeight})`);
+      }
+      this.renderer.render(this.scene, camera);
+
+      // Copy before the browser composites the frame; the drawing buffer is not preserved after that.
+      const output = document.createElement('canvas');
+      output.width = width;
+      output.height = height;
+      output.getContext('2d')?.drawImage(this.renderer.domElement, 0, 0, width, height);
+      return output;
+    } finally {
+      this.scene.background = background;
+      this.renderer.setClearColor(clearColor, clearAlpha);
+      hidden.forEach(helper => helper.visible = true);
+      selection.forEach(obj => this.updateSelectionHighlight(obj, true));
+      this.renderer.setPixelRatio(pixelRatio);
+      this.renderer.setSize(size.x, size.y, false);
+      this.render();
+    }
+  }
+
+  // A copy of the camera with its frustum stretched to the capture aspect, so the on-screen view is left alone.
+  private createCaptureCamera(source: THREE.Camera, aspect: number): THREE.Camera {
+    const camera = source.clone();
+    if (camera instanceof THREE.PerspectiveCamera) {
+      camera.aspect = aspect;
+      camera.updateProjectionMatrix();
+    } else if (camera instanceof THREE.OrthographicCamera) {
+      const centerX = (camera.left + camera.right) / 2;
+      const halfWidth = (camera.top - camera.bottom) / 2 * aspect;
+      camera.left = centerX - halfWidth;
+      camera.right = centerX + halfWidth;
+      camera.updateProjectionMatrix();
+    }
+    camera.updateMatrixWorld(true);
+    return camera;
   }
 
   public setCamera(position: THREE.Vector3, target: THREE.Vector3) {
@@ -543,10 +816,19 @@ export class RoomScene {
     return target;
   }
 
+  // The camera used for rendering and picking: the 3D perspective camera unless another view is active.
   public getCamera(): THREE.Camera {
+    return this.activeCamera;
+  }
+
+  public getPerspectiveCamera(): THREE.PerspectiveCamera {
     return this.camera;
   }
 
+  public setActiveCamera(camera: THREE.Camera | null) {
+    this.activeCamera = camera ?? this.camera;
+  }
+
   public getRenderer(): THREE.WebGLRenderer {
     return this.renderer;
   }
@@ -555,46 +837,64 @@ export class RoomScene {
     return this.scene;
   }
 
-  public addFurniture(type: 'table' | 'chair' | 'bookshelf' | 'sofa' | 'lamp'): FurnitureObject {
-    let furniture: FurnitureObject;
-
-    switch (type) {
-      case 'table':
-        furniture = this.furnitureFactory.createTable();
-        break;
-      case 'chair':
-        furniture = this.furnitureFactory.createChair();
-        break;
-      case 'bookshelf':
-        furniture = this.furnitureFactory.createBookshelf();
-        break;
-      case 'sofa':
-        furniture = this.furnitureFactory.createSofa();
-        break;
-      case 'lamp':
-        furniture = this.furnitureFactory.createLamp();
-        furniture.group.traverse((child) => {
-          if (child instanceof THREE.PointLight) {
-            child.visible = true;
-          }
-        });
-        break;
+  public getFurnitureDefinition(furniture: FurnitureObject): FurnitureDefinition {
+    return this.furnitureCatalog.get(furniture.type);
+  }
+
+  public getFurnitureCatalog(): FurnitureCatalog {
+    return this.furnitureCatalog;
+  }
+
+  public addFurniture(type: FurnitureType, params?: FurnitureParams): FurnitureObject {
+    const furniture = this.furnitureFactory.create(type, params);
+    this.registerFurniture(furniture);
+    
+    return furniture;
+  }
+
+  // Rebuilds a parametric piece at a new size; the material and selection highlight carry over to the new parts.
+  public resizeFurniture(furniture: FurnitureObject, params: FurnitureParams, scale?: THREE.Vector3) {
+    this.furnitureFactory.rebuild(furniture, params);
+    if (scale) {
+      furniture.group.scale.copy(scale);
+    }
+    this.applyFurnitureMaterials(furniture);
+    
+    const sceneObj = this.sceneObjects.find(obj => obj.furnitureRef === furniture);
+    if (sceneObj?.selected) {
+      this.updateSelectionHighlight(sceneObj, true);
     }
+    this.notifyChange();
+  }
+
+  public getModelImporter(): ModelImporter {
+    return this.modelImporter;
+  }
 
+  public async importModel(file: File): Promise<FurnitureObject> {
+    const definition = await this.modelImporter.importFile(file);
+    return this.addFurniture(definition.id);
+  }
+
+  public restoreFurniture(furniture: FurnitureObject) {
+    if (this.furniture.includes(furniture)) return;
+    this.registerFurniture(furniture);
+  }
+
+  private registerFurniture(furniture: FurnitureObject) {
     this.furniture.push(furniture);
     this.scene.add(furniture.group);
     
     const sceneObj: SceneObject = {
       id: furniture.id,
-      name: `${type.charAt(0).toUpperCase() + type.slice(1)} #${furniture.id.split('_')[1]}`,
+      name: `${furniture.type.charAt(0).toUpperCase() + furniture.type.slice(1)} #${furniture.id.split('_')[1]}`,
       type: 'furniture',
       object: furniture.group,
       selected: false,
       furnitureRef: furniture
     };
     this.sceneObjects.push(sceneObj);
-    
-    return furniture;
+    this.notifyChange();
   }
 
   public removeFurniture(furniture: FurnitureObject) {
@@ -605,20 +905,297 @@ export class RoomScene {
       
       const objIndex = this.sceneObjects.findIndex(obj => obj.furnitureRef === furniture);
       if (objIndex > -1) {
-        this.sceneObjects.splice(objIndex, 1);
+        const [sceneObj] = this.sceneObjects.splice(objIndex, 1);
+        sceneObj.selected = false;
+        this.updateSelectionHighlight(sceneObj, false);
       }
       
       if (this.selectedObject?.furnitureRef === furniture) {
-        this.selectedObject = null;
+        this.selectedObject = this.getSelection().pop() ?? null;
+      }
+      this.notifyChange();
+    }
+  }
+
+  public clearFurniture() {
+    [...this.furniture].forEach(furniture => this.removeFurniture(furniture));
+  }
+
+  public isOverlapAllowed(): boolean {
+    return this.allowOverlap;
+  }
+
+  public setAllowOverlap(allow: boolean) {
+    this.allowOverlap = allow;
+  }
+
+  public getCollisionsFor(
+    furniture: FurnitureObject,
+    position: THREE.Vector3 = furniture.group.position,
+    ignore: FurnitureObject[] = []
+  ): FurnitureCollision[] {
+    const collisions: FurnitureCollision[] = [];
+    const footprint = computeFootprint(furniture.group, position);
+    
+    const wallIndex = findWallCollision(footprint, this.roomSpec.outline);
+    if (wallIndex !== null) {
+      collisions.push({
+        furniture,
+        kind: wallIndex < 0 ? 'outside' : 'wall',
+        other: null,
+        wallIndex: wallIndex < 0 ? null : wallIndex
+      });
+    }
+    
+    if (!this.allowOverlap) {
+      this.furniture.forEach(other => {
+        if (other === furniture || ignore.includes(other)) return;
+        if (footprintsOverlap(footprint, computeFootprint(other.group))) {
+          collisions.push({ furniture, kind: 'furniture', other, wallIndex: null });
+        }
+      });
+    }
+    return collisions;
+  }
+
+  public getWalkObstacles(): WalkSegment[] {
+    return buildWalkObstacles(this.roomSpec, this.furniture.map(item => computeFootprint(item.group).corners));
+  }
+
+  public getCollisions(): FurnitureCollision[] {
+    const collisions: FurnitureCollision[] = [];
+    this.furniture.forEach((furniture, i) => {
+      this.getCollisionsFor(furniture).forEach(collision => {
+        // Each furniture pair is found from both sides; keep only the first.
+        if (collision.other && this.furniture.indexOf(collision.other) < i) return;
+        collisions.push(collision);
+      });
+    });
+    return collisions;
+  }
+
+  public getSnapSettings(): SnapSettings {
+    return { ...this.snapSettings };
+  }
+
+  public setSnapSettings(settings: Partial<SnapSettings>) {
+    this.snapSettings = { ...this.snapSettings, ...settings };
+  }
+
+  // One step of an interactive drag: snaps the target, moves with collision checks and draws the guides.
+  public dragFurniture(furniture: FurnitureObject, target: THREE.Vector3, snap = true): boolean {
+    const group = furniture.group;
+    const settings = this.snapSettings;
+    if (!snap || !settings.enabled) {
+      this.clearSnapGuides();
+      return this.moveFurniture(furniture, target);
+    }
+    
+    const position = new THREE.Vector3(
+      snapToGrid(target.x, settings.gridStep),
+      target.y,
+      snapToGrid(target.z, settings.gridStep)
+    );
+    const guides: SnapGuide[] = [];
+    const previousRotation = group.rotation.y;
+    
+    const local = computeLocalBounds(group);
+    const backDepth = local.isEmpty() ? 0 : -local.min.z * group.scale.z;
+    const wallSnap = settings.walls
+      ? findWallSnap(target, backDepth, this.getWallSegments(), settings.threshold)
+      : null;
+    if (wallSnap) {
+      group.rotation.y = wallSnap.rotationY;
+    }
+    
+    if (settings.furniture) {
+      const others = this.furniture
+        .filter(other => other !== furniture)
+        .map(other => computeFootprint(other.group).corners);
+      const alignment = findAlignment(computeFootprint(group, position).corners, others, settings.threshold);
+      position.x += alignment.offsetX;
+      position.z += alignment.offsetZ;
+      guides.push(...alignment.guides);
+    }
+    
+    if (wallSnap) {
+      // Keep the position along the wall but pin the back flush against it.
+      const segment = this.getWallSegments()[wallSnap.wallIndex];
+      const along = position.clone().sub(segment.start).dot(segment.direction);
+      position.copy(segment.start)
+        .addScaledVector(segment.direction, Math.max(0, Math.min(segment.length, along)))
+        .addScaledVector(segment.inward, backDepth)
+        .setY(target.y);
+      guides.push(wallSnap.guide);
+    }
+    
+    const rotated = group.rotation.y !== previousRotation;
+    const moved = this.moveFurniture(furniture, position);
+    // Holding still on a snapped spot is not a move, but its guides should stay visible.
+    const snapped = moved || group.position.distanceTo(position) < 1e-6;
+    if (!snapped) {
+      group.rotation.y = previousRotation;
+    } else if (!moved && rotated) {
+      this.notifyChange();
+    }
+    this.showSnapGuides(snapped ? guides : []);
+    return moved || (snapped && rotated);
+  }
+
+  private showSnapGuides(guides: SnapGuide[]) {
+    this.clearSnapGuides();
+    if (guides.length === 0) return;
+    
+    const points = guides.flatMap(guide => [
+      guide.start.clone().setY(0.02),
+      guide.end.clone().setY(0.02)
+    ]);
+    const lines = new THREE.LineSegments(
+      new THREE.BufferGeometry().setFromPoints(points),
+      new THREE.LineBasicMaterial({ color: 0x00c8ff, depthTest: false })
+    );
+    lines.renderOrder = 999;
+    this.snapGuides.add(lines);
+  }
+
+  public clearSnapGuides() {
+    this.snapGuides.children.forEach(child => {
+      if (child instanceof THREE.LineSegments) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
       }
+    });
+    this.snapGuides.clear();
+  }
+
+  public getFurnitureCenter(pieces: FurnitureObject[]): THREE.Vector3 {
+    const center = new THREE.Vector3();
+    pieces.forEach(piece => center.add(piece.group.position));
+    return pieces.length > 0 ? center.divideScalar(pieces.length).setY(0) : center;
+  }
+
+  // Moves several pieces by the same offset; collisions between the pieces themselves are ignored.
+  public moveFurnitureGroup(pieces: FurnitureObject[], delta: THREE.Vector3): boolean {
+    const collisionKey = (c: FurnitureCollision) => `${c.furniture.id}:${c.other?.id ?? `${c.kind}:${c.wallIndex}`}`;
+    const collisionsAt = (offset: THREE.Vector3) => pieces.flatMap(piece =>
+      this.getCollisionsFor(piece, piece.group.position.clone().add(offset), pieces)
+    );
+    const existing = new Set(collisionsAt(new THREE.Vector3()).map(collisionKey));
+    const isFree = (offset: THREE.Vector3) => collisionsAt(offset).every(c => existing.has(collisionKey(c)));
+    
+    const candidates = [
+      delta.clone(),
+      new THREE.Vector3(delta.x, delta.y, 0),
+      new THREE.Vector3(0, delta.y, delta.z)
+    ];
+    const offset = candidates.find(isFree);
+    if (!offset || offset.lengthSq() === 0) return false;
+    
+    pieces.forEach(piece => piece.group.position.add(offset));
+    this.notifyChange();
+    return true;
+  }
+
+  public rotateFurnitureGroup(pieces: FurnitureObject[], angle: number, center = this.getFurnitureCenter(pieces)) {
+    const axis = new THREE.Vector3(0, 1, 0);
+    pieces.forEach(piece => {
+      const offset = piece.group.position.clone().sub(center).applyAxisAngle(axis, angle);
+      piece.group.position.set(center.x + offset.x, piece.group.position.y, center.z + offset.z);
+      piece.group.rotation.y += angle;
+    });
+    this.notifyChange();
+  }
+
+  // Checks a rotate or scale step already applied to the piece. If it runs into a wall or a piece it was clear of
+  // before, the previous rotation and scale are put back. Returns whether the step was kept.
+  public settleFurnitureTransform(
+    furniture: FurnitureObject,
+    previous: { rotation: THREE.Euler; scale: THREE.Vector3 }
+  ): boolean {
+    const group = furniture.group;
+    const collisionKey = (c: FurnitureCollision) => c.other?.id ?? `${c.kind}:${c.wallIndex}`;
+    const rotation = group.rotation.clone();
+    const scale = group.scale.clone();
+    
+    group.rotation.copy(previous.rotation);
+    group.scale.copy(previous.scale);
+    const existing = new Set(this.getCollisionsFor(furniture).map(collisionKey));
+    group.rotation.copy(rotation);
+    group.scale.copy(scale);
+    
+    if (this.getCollisionsFor(furniture).some(c => !existing.has(collisionKey(c)))) {
+      group.rotation.copy(previous.rotation);
+      group.scale.copy(previous.scale);
+      return false;
     }
+    this.notifyChange();
+    return true;
   }
 
-  public selectObject(mouseX: number, mouseY: number): SceneObject | null {
+  public moveFurniture(furniture: FurnitureObject, target: THREE.Vector3): boolean {
+    const current = furniture.group.position.clone();
+    const collisionKey = (c: FurnitureCollision) => c.other?.id ?? `${c.kind}:${c.wallIndex}`;
+    // Overlaps that already exist never block, so a piece can always be dragged out of them.
+    const existing = new Set(this.getCollisionsFor(furniture, current).map(collisionKey));
+    const isFree = (position: THREE.Vector3) =>
+      this.getCollisionsFor(furniture, position).every(c => existing.has(collisionKey(c)));
+    
+    // Try the full move first, then slide along whichever axis is still free.
+    const candidates = [
+      target.clone(),
+      new THREE.Vector3(target.x, target.y, current.z),
+      new THREE.Vector3(current.x, target.y, target.z)
+    ];
+    const next = candidates.find(isFree);
+    if (!next || next.equals(current)) return false;
+    
+    furniture.group.position.copy(next);
+    this.notifyChange();
+    return true;
+  }
+
+  // Returns the world point under the cursor on the floor, a wall, a fixture or a piece of furniture.
+  public pickSurfacePoint(mouseX: number, mouseY: number): THREE.Vector3 | null {
     this.mouse.x = (mouseX / this.canvas.width) * 2 - 1;
     this.mouse.y = -(mouseY / this.canvas.height) * 2 + 1;
+    this.raycaster.setFromCamera(this.mouse, this.activeCamera);
+    
+    const targets = this.sceneObjects.map(obj => obj.object);
+    const hit = this.raycaster.intersectObjects(targets, true)[0];
+    return hit ? hit.point.clone() : null;
+  }
 
-    this.raycaster.setFromCamera(this.mouse, this.camera);
+  public pickFurniture(mouseX: number, mouseY: number): FurnitureObject | null {
+    this.mouse.x = (mouseX / this.canvas.width) * 2 - 1;
+    this.mouse.y = -(mouseY / this.canvas.height) * 2 + 1;
+    this.raycaster.setFromCamera(this.mouse, this.activeCamera);
+    
+    const intersects = this.raycaster.intersectObjects(this.furniture.map(item => item.group), true);
+    if (intersects.length === 0) return null;
+    
+    let hitObject: THREE.Object3D | null = intersects[0].object;
+    while (hitObject) {
+      const candidate: THREE.Object3D = hitObject;
+      const furniture = this.furniture.find(item => item.group === candidate);
+      if (furniture) return furniture;
+      hitObject = hitObject.parent;
+    }
+    return null;
+  }
+
+  public selectObject(mouseX: number, mouseY: number, additive = false): SceneObject | null {
+    // Shift-click adds to or removes from a furniture selection.
+    if (additive && this.getSelection().every(obj => obj.type === 'furniture')) {
+      const furniture = this.pickFurniture(mouseX, mouseY);
+      if (furniture) {
+        return this.toggleFurnitureSelection(furniture);
+      }
+    }
+    
+    this.mouse.x = (mouseX / this.canvas.width) * 2 - 1;
+    this.mouse.y = -(mouseY / this.canvas.height) * 2 + 1;
+
+    this.raycaster.setFromCamera(this.mouse, this.activeCamera);
 
     this.sceneObjects.forEach(obj => {
       obj.selected = false;
@@ -637,6 +1214,10 @@ export class RoomScene {
       });
     }
     
+    if (this.fixtures) {
+      intersectableObjects.push(...this.fixtures.children);
+    }
+    
     this.furniture.forEach(item => {
       intersectableObjects.push(item.group);
     });
@@ -644,23 +1225,15 @@ export class RoomScene {
     const intersects = this.raycaster.intersectObjects(intersectableObjects, true);
 
     if (intersects.length > 0) {
-      let hitObject = intersects[0].object;
+      let sceneObj: SceneObject | undefined;
+      let hitObject: THREE.Object3D | null = intersects[0].object;
       
-      while (hitObject.parent && hitObject.parent !== this.scene) {
+      while (hitObject && !sceneObj) {
+        const candidate: THREE.Object3D = hitObject;
+        sceneObj = this.sceneObjects.find(obj => obj.object === candidate);
         hitObject = hitObject.parent;
       }
       
-      const sceneObj = this.sceneObjects.find(obj => {
-        if (obj.type === 'floor') {
-          return hitObject === this.floor;
-        } else if (obj.type === 'walls') {
-          return this.walls?.children.includes(hitObject as THREE.Object3D);
-        } else if (obj.type === 'furniture') {
-          return obj.furnitureRef?.group === hitObject;
-        }
-        return false;
-      });
-      
       if (sceneObj) {
         sceneObj.selected = true;
         this.selectedObject = sceneObj;
@@ -684,13 +1257,17 @@ export class RoomScene {
     } else if (obj.type === 'walls' && this.walls) {
       this.walls.children.forEach(child => {
         if (child instanceof THREE.Mesh) {
-          const material = child.material as THREE.MeshPhongMaterial;
+          const material = child.material as THREE.MeshStandardMaterial;
           material.emissive.setHex(selected ? 0xffff77 : 0x000000);
           material.emissiveIntensity = highlightColor;
         }
       });
-    } else if (obj.type === 'furniture' && obj.furnitureRef) {
-      obj.furnitureRef.group.traverse((child) => {
+    } else if (obj.type === 'wall' && obj.object instanceof THREE.Mesh) {
+      const material = obj.object.material as THREE.MeshStandardMaterial;
+      material.emissive.setHex(selected ? 0xffff77 : 0x000000);
+      material.emissiveIntensity = highlightColor;
+    } else if ((obj.type === 'furniture' && obj.furnitureRef) || obj.type === 'opening') {
+      obj.object.traverse((child) => {
         if (child instanceof THREE.Mesh) {
           const material = child.material as any;
           if (material.emissive) {
@@ -706,269 +1283,266 @@ export class RoomScene {
     return this.selectedObject;
   }
 
-  public clearSelection() {
-    this.sceneObjects.forEach(obj => {
-      obj.selected = false;
-      this.updateSelectionHighlight(obj, false);
-    });
-    this.selectedObject = null;
+  public getSelection(): SceneObject[] {
+    return this.sceneObjects.filter(obj => obj.selected);
   }
 
-  private createProceduralTexture(type: string): THREE.Texture | null {
-    const canvas = document.createElement('canvas');
-    canvas.width = 512;
-    canvas.height = 512;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-
-    switch (type) {
-      case 'wood-parquet': {
-        const plankWidth = 64;
-        const plankHeight = 8;
-        
-        for (let y = 0; y < canvas.height; y++) {
-          for (let x = 0; x < canvas.width; x++) {
-            const plankY = Math.floor(y / plankHeight);
-            const localX = x % plankWidth;
-            const localY = y % plankHeight;
-            
-            const grain = Math.sin(localX * 0.3 + plankY * 13) * 8;
-            const knots = Math.sin(localX * 0.1) * Math.sin(localY * 0.5) * 5;
-            const base = 120 + grain + knots + (Math.random() - 0.5) * 15;
-            
-            const borderSize = 2;
-            const isBorder = localX < borderSize || localX >= plankWidth - borderSize || 
-                             localY < borderSize || localY >= plankHeight - borderSize;
-            
-            const r = isBorder ? base * 0.5 : base * 0.7;
-            const g = isBorder ? base * 0.4 : base * 0.5;
-            const b = isBorder ? base * 0.3 : base * 0.35;
-            
-            ctx.fillStyle = `rgb(${r},${g},${b})`;
-            ctx.fillRect(x, y, 1, 1);
-          }
-        }
-        break;
-      }
-
-      case 'painted-wall': {
-        for (let y = 0; y < canvas.height; y++) {
-          for (let x = 0; x < canvas.width; x++) {
-            const baseR = 235, baseG = 225, baseB = 210;
-            const variation = (Math.sin(x * 0.02) * Math.cos(y * 0.03) + 
-                              Math.sin(x * 0.05 + y * 0.04)) * 8;
-            const noise = (Math.random() - 0.5) * 10;
-            
-            const r = Math.max(0, Math.min(255, baseR + variation + noise));
-            const g = Math.max(0, Math.min(255, baseG + variation + noise));
-            const b = Math.max(0, Math.min(255, baseB + variation + noise));
-            
-            ctx.fillStyle = `rgb(${r},${g},${b})`;
-            ctx.fillRect(x, y, 1, 1);
-          }
-        }
-        break;
-      }
-
-      case 'brick': {
-        const brickW = 128, brickH = 32, mortarSize = 4;
-        for (let y = 0; y < canvas.height; y++) {
-          for (let x = 0; x < canvas.width; x++) {
-            const row = Math.floor(y / brickH);
-            const offsetX = (row % 2) * (brickW / 2);
-            const localX = (x + offsetX) % brickW;
-            const localY = y % brickH;
-            
-            const isMortar = localX < mortarSize || localY < mortarSize;
-            
-            if (isMortar) {
-              ctx.fillStyle = `rgb(180,180,180)`;
-            } else {
-              const variation = (Math.random() - 0.5) * 30;
-              const r = 150 + variation;
-              const g = 80 + variation;
-              const b = 60 + variation;
-              ctx.fillStyle = `rgb(${r},${g},${b})`;
-            }
-            ctx.fillRect(x, y, 1, 1);
-          }
-        }
-        break;
-      }
+  public getSelectedFurniture(): FurnitureObject[] {
+    return this.getSelection()
+      .map(obj => obj.furnitureRef)
+      .filter((furniture): furniture is FurnitureObject => furniture !== undefined);
+  }
 
-      case 'checkerboard': {
-        const size = 64;
-        for (let y = 0; y < canvas.height; y++) {
-          for (let x = 0; x < canvas.width; x++) {
-            const checkX = Math.floor(x / size);
-            const checkY = Math.floor(y / size);
-            const isWhite = (checkX + checkY) % 2 === 0;
-            const value = isWhite ? 240 : 40;
-            ctx.fillStyle = `rgb(${value},${value},${value})`;
-            ctx.fillRect(x, y, 1, 1);
-          }
-        }
-        break;
+  public selectFurniture(pieces: FurnitureObject[], additive = false): SceneObject | null {
+    if (!additive || this.getSelection().some(obj => obj.type !== 'furniture')) {
+      this.clearSelection();
+    }
+    pieces.forEach(piece => {
+      const obj = this.sceneObjects.find(o => o.furnitureRef === piece);
+      if (obj) {
+        obj.selected = true;
+        this.selectedObject = obj;
+        this.updateSelectionHighlight(obj, true);
       }
+    });
+    return this.selectedObject;
+  }
 
-      case 'oak': {
-        for (let y = 0; y < canvas.height; y++) {
-          for (let x = 0; x < canvas.width; x++) {
-            const grain = Math.sin(x * 0.1) * 15 + Math.sin(y * 0.05) * 8;
-            const base = 160 + grain;
-            const r = Math.max(0, Math.min(255, base * 0.65));
-            const g = Math.max(0, Math.min(255, base * 0.45));
-            const b = Math.max(0, Math.min(255, base * 0.30));
-            ctx.fillStyle = `rgb(${r},${g},${b})`;
-            ctx.fillRect(x, y, 1, 1);
-          }
-        }
-        break;
-      }
+  public toggleFurnitureSelection(furniture: FurnitureObject): SceneObject | null {
+    const obj = this.sceneObjects.find(o => o.furnitureRef === furniture);
+    if (!obj) return this.selectedObject;
+    if (this.getSelection().some(o => o.type !== 'furniture')) {
+      this.clearSelection();
+    }
+    
+    obj.selected = !obj.selected;
+    this.updateSelectionHighlight(obj, obj.selected);
+    if (obj.selected) {
+      this.selectedObject = obj;
+    } else if (this.selectedObject === obj) {
+      this.selectedObject = this.getSelection().pop() ?? null;
+    }
+    return this.selectedObject;
+  }
 
-      case 'fabric': {
-        for (let y = 0; y < canvas.height; y++) {
-          for (let x = 0; x < canvas.width; x++) {
-            const weave = Math.sin(x * 0.5) * Math.sin(y * 0.5) * 20;
-            const base = 120 + weave + (Math.random() - 0.5) * 30;
-            ctx.fillStyle = `rgb(${base},${base * 0.9},${base * 0.8})`;
-            ctx.fillRect(x, y, 1, 1);
-          }
-        }
-        break;
-      }
+  // Selects every piece whose centre lies inside the given canvas rectangle (in pixels).
+  public selectFurnitureInRect(x1: number, y1: number, x2: number, y2: number, additive = false): SceneObject | null {
+    const left = Math.min(x1, x2);
+    const right = Math.max(x1, x2);
+    const top = Math.min(y1, y2);
+    const bottom = Math.max(y1, y2);
+    
+    const inside = this.furniture.filter(item => {
+      const center = new THREE.Box3().setFromObject(item.group).getCenter(new THREE.Vector3()).project(this.activeCamera);
+      if (center.z > 1) return false;
+      const x = (center.x + 1) / 2 * this.canvas.width;
+      const y = (1 - center.y) / 2 * this.canvas.height;
+      return x >= left && x <= right && y >= top && y <= bottom;
+    });
+    
+    if (!additive) {
+      this.clearSelection();
+    }
+    return this.selectFurniture(inside, true);
+  }
 
-      case 'metal': {
-        for (let y = 0; y < canvas.height; y++) {
-          for (let x = 0; x < canvas.width; x++) {
-            const brushed = Math.sin(x * 0.2) * 10;
-            const base = 180 + brushed + (Math.random() - 0.5) * 20;
-            ctx.fillStyle = `rgb(${base},${base},${base})`;
-            ctx.fillRect(x, y, 1, 1);
-          }
-        }
-        break;
-      }
+  public clearSelection() {
+    this.sceneObjects.forEach(obj => {
+      obj.selected = false;
+      this.updateSelectionHighlight(obj, false);
+    });
+    this.selectedObject = null;
+  }
 
-      default:
-        return null;
+  public selectObjectById(id: string): SceneObject | null {
+    this.clearSelection();
+    const obj = this.sceneObjects.find(o => o.id === id) ?? null;
+    if (obj) {
+      obj.selected = true;
+      this.selectedObject = obj;
+      this.updateSelectionHighlight(obj, true);
     }
+    return obj;
+  }
 
-    const texture = new THREE.CanvasTexture(canvas);
-    texture.wrapS = THREE.RepeatWrapping;
-    texture.wrapT = THREE.RepeatWrapping;
-    return texture;
+  public getMaterialLibrary(): MaterialLibrary {
+    return this.materialLibrary;
   }
 
-  public async loadTextureToSelected(url: string): Promise<boolean> {
+  public async loadTextureToSelected(url: string, part?: string): Promise<boolean> {
     if (!this.selectedObject) {
       console.warn('No object selected');
       return false;
     }
 
+    return this.loadTextureToObject(this.selectedObject, url, part);
+  }
+
+  // Accepts a material:// library reference, which sets every channel, or a plain texture URL for the albedo only.
+  // On furniture, a part name limits the material to that part; without one the whole piece changes and part overrides are dropped.
+  public async loadTextureToObject(target: SceneObject, url: string, part?: string): Promise<boolean> {
+    if (target.type === 'opening') {
+      console.warn('Textures cannot be applied to doors and windows');
+      return false;
+    }
+    
     try {
-      console.log(`Loading texture from: ${url}`);
+      console.log(`Loading material from: ${url}`);
       
-      let texture: THREE.Texture;
-
-      if (url.startsWith('procedural://')) {
-        const type = url.replace('procedural://', '');
-        const proceduralTexture = this.createProceduralTexture(type);
-        if (!proceduralTexture) {
-          console.error('Unknown procedural texture type:', type);
-          return false;
-        }
-        texture = proceduralTexture;
-        console.log('✅ Procedural texture created successfully!');
-      } else {
-        texture = await new Promise<THREE.Texture>((resolve, reject) => {
-          this.textureLoader.load(
-            url,
-            (loadedTexture) => {
-              console.log('✅ Texture loaded successfully!');
-              resolve(loadedTexture);
-            },
-            (progress) => {
-              if (progress.total > 0) {
-                console.log(`Loading progress: ${(progress.loaded / progress.total * 100).toFixed(0)}%`);
-              }
-            },
-            (error) => {
-              console.error('❌ Texture loading error:', error);
-              reject(error);
-            }
-          );
-        });
-
-        texture.wrapS = THREE.RepeatWrapping;
-        texture.wrapT = THREE.RepeatWrapping;
-      }
+      const material = await this.materialLibrary.load(url);
       
-      if (this.selectedObject.type === 'floor' && this.floor) {
-        texture.repeat.set(10, 10);
-        const material = this.floor.material as THREE.MeshStandardMaterial;
-        material.map = texture;
-        material.needsUpdate = true;
-        console.log(`✅ Texture applied to floor`);
-      } else if (this.selectedObject.type === 'walls' && this.walls) {
-        const brickWidth = 0.25;
-        const brickHeight = 0.08;
-        
-        this.walls.children.forEach(child => {
-          if (child instanceof THREE.Mesh) {
-            const geometry = child.geometry as THREE.PlaneGeometry;
-            const material = child.material as THREE.MeshPhongMaterial;
-            
-            const wallWidth = geometry.parameters.width;
-            const wallHeight = geometry.parameters.height;
-            
-            const isBrickTexture = url.includes('brick') || url === 'procedural://brick';
-            const baseWidth = isBrickTexture ? brickWidth : 1.0;
-            const baseHeight = isBrickTexture ? brickHeight : 1.0;
-            
-            const repeatX = wallWidth / baseWidth;
-            const repeatY = wallHeight / baseHeight;
-            
-            material.map = texture.clone();
-            material.map.repeat.set(repeatX, repeatY);
-            material.needsUpdate = true;
-          }
-        });
-        console.log(`✅ Texture applied to walls`);
-      } else if (this.selectedObject.type === 'furniture' && this.selectedObject.furnitureRef) {
-        texture.repeat.set(1, 1);
-        this.selectedObject.furnitureRef.group.traverse((child) => {
-          if (child instanceof THREE.Mesh) {
-            const material = child.material as THREE.MeshPhongMaterial;
-            material.map = texture.clone();
-            material.needsUpdate = true;
-          }
-        });
-        console.log(`✅ Texture applied to furniture`);
+      if (target.type === 'floor' && this.floor) {
+        this.floorMaterial = material;
+        this.applyFloorMaterial();
+        console.log(`✅ Material applied to floor`);
+      } else if (target.type === 'walls' && this.walls) {
+        this.wallMaterial = material;
+        this.wallMaterialOverrides.clear();
+        this.applyWallMaterials();
+        console.log(`✅ Material applied to walls`);
+      } else if (target.type === 'wall' && target.wallIndex !== undefined) {
+        this.wallMaterialOverrides.set(target.wallIndex, material);
+        this.applyWallMaterials();
+        console.log(`✅ Material applied to wall ${target.wallIndex + 1}`);
+      } else if (target.type === 'furniture' && target.furnitureRef) {
+        const furniture = target.furnitureRef;
+        const current = this.furnitureMaterials.get(furniture);
+        if (part) {
+          const parts = new Map(current?.parts);
+          parts.set(part, material);
+          this.setFurnitureMaterials(furniture, { base: current?.base ?? null, parts });
+        } else {
+          this.setFurnitureMaterials(furniture, { base: material, parts: new Map() });
+        }
+        this.applyFurnitureMaterials(furniture);
+        console.log(`✅ Material applied to ${part ? `furniture part "${part}"` : 'furniture'}`);
       }
       
+      this.notifyChange();
       return true;
     } catch (error) {
-      console.error('Failed to load texture:', error);
+      console.error('❌ Failed to load material:', error);
       return false;
     }
   }
 
+  private getTargetMeshes(target: SceneObject): THREE.Mesh[] {
+    const meshes: THREE.Mesh[] = [];
+    if (target.type === 'floor' && this.floor) {
+      meshes.push(this.floor);
+    } else if (target.type === 'walls' && this.walls) {
+      this.walls.children.forEach(child => {
+        if (child instanceof THREE.Mesh) meshes.push(child);
+      });
+    } else if (target.type === 'wall' && target.object instanceof THREE.Mesh) {
+      meshes.push(target.object);
+    } else if (target.type === 'furniture' && target.furnitureRef) {
+      target.furnitureRef.group.traverse(child => {
+        if (child instanceof THREE.Mesh) meshes.push(child);
+      });
+    }
+    return meshes;
+  }
+
+  public captureTextureState(target: SceneObject): TextureState {
+    const materials = new Map<THREE.MeshStandardMaterial, MaterialSnapshot>();
+    this.getTargetMeshes(target).forEach(mesh => {
+      if (mesh.material instanceof THREE.MeshStandardMaterial) {
+        materials.set(mesh.material, captureMaterial(mesh.material));
+      }
+    });
+
+    if (target.type === 'floor') {
+      return { url: this.floorMaterial?.ref ?? null, materials, floor: this.floorMaterial };
+    }
+    if (target.type === 'walls' || target.type === 'wall') {
+      const wallMaterial = target.type === 'wall' && target.wallIndex !== undefined
+        ? this.wallMaterialOverrides.get(target.wallIndex)
+        : this.wallMaterial;
+      return {
+        url: wallMaterial?.ref ?? null,
+        materials,
+        walls: { base: this.wallMaterial, overrides: new Map(this.wallMaterialOverrides) }
+      };
+    }
+    if (target.furnitureRef) {
+      const current = this.furnitureMaterials.get(target.furnitureRef);
+      return {
+        url: target.furnitureRef.textureUrl ?? null,
+        materials,
+        furniture: { base: current?.base ?? null, parts: new Map(current?.parts) }
+      };
+    }
+    return { url: null, materials };
+  }
+
+  public restoreTextureState(target: SceneObject, state: TextureState) {
+    state.materials.forEach((snapshot, material) => restoreMaterial(material, snapshot));
+
+    // The room or its tiling may have changed since the capture, so floor and walls are repainted from the saved materials.
+    if (state.floor !== undefined) {
+      this.floorMaterial = state.floor;
+      this.applyFloorMaterial();
+    } else if (state.walls) {
+      this.wallMaterial = state.walls.base;
+      this.wallMaterialOverrides = new Map(state.walls.overrides);
+      this.applyWallMaterials();
+    } else if (target.furnitureRef && state.furniture) {
+      const furniture = target.furnitureRef;
+      this.setFurnitureMaterials(furniture, { base: state.furniture.base, parts: new Map(state.furniture.parts) });
+      // A resize may have replaced the meshes since the capture; rebuilding resets them before repainting.
+      const replaced = this.getTargetMeshes(target)
+        .some(mesh => !state.materials.has(mesh.material as THREE.MeshStandardMaterial));
+      if (replaced) {
+        this.resizeFurniture(furniture, furniture.params);
+      } else {
+        this.applyFurnitureMaterials(furniture);
+      }
+    }
+    this.notifyChange();
+  }
+
+  // Named parts that take materials, in build order.
+  public getFurnitureParts(furniture: FurnitureObject): string[] {
+    const parts = new Set<string>();
+    furniture.group.traverse(child => {
+      if (child instanceof THREE.Mesh && child.material instanceof THREE.MeshStandardMaterial && child.userData.part) {
+        parts.add(child.userData.part);
+      }
+    });
+    return [...parts];
+  }
+
+  // Drops a part's own material so it follows the whole piece again; the piece is rebuilt to get its original colours back.
+  public clearFurniturePartMaterial(furniture: FurnitureObject, part: string): boolean {
+    const current = this.furnitureMaterials.get(furniture);
+    if (!current?.parts.has(part)) return false;
+    
+    const parts = new Map(current.parts);
+    parts.delete(part);
+    this.setFurnitureMaterials(furniture, { base: current.base, parts });
+    this.resizeFurniture(furniture, furniture.params);
+    return true;
+  }
+
   public getAllFurniture(): FurnitureObject[] {
     return this.furniture;
   }
 
   public setLightDirection(x: number, y: number, z: number) {
+    this.lightDirection.set(x, y, z);
     this.directionalLight.position.set(-x * 10, -y * 10, -z * 10);
     if (this.floor && this.floor.material instanceof THREE.ShaderMaterial) {
       const shaderMaterial = this.floor.material as THREE.ShaderMaterial;
       const lightDir = new THREE.Vector3(-x, -y, -z).normalize();
       shaderMaterial.uniforms.uLightDirection.value = lightDir;
     }
+    this.notifyChange();
   }
 
   public setLightIntensity(intensity: number) {
     this.directionalLight.intensity = intensity;
+    this.notifyChange();
   }
 
   public setShadowsEnabled(enabled: boolean) {
@@ -977,7 +1551,7 @@ export class RoomScene {
     this.directionalLight.castShadow = enabled;
     
     this.scene.traverse((object) => {
-      if (object instanceof THREE.Mesh) {
+      if (object instanceof THREE.Mesh && !this.isHelper(object)) {
         if (object !== this.floor && !(this.walls && this.walls.children.includes(object))) {
           object.castShadow = enabled;
         }
@@ -986,6 +1560,207 @@ export class RoomScene {
         }
       }
     });
+    this.notifyChange();
+  }
+
+  // Editor-only overlays (gizmos) that must stay out of shadows.
+  public addHelper(helper: THREE.Object3D) {
+    this.helpers.add(helper);
+    this.scene.add(helper);
+  }
+
+  public removeHelper(helper: THREE.Object3D) {
+    this.helpers.delete(helper);
+    this.scene.remove(helper);
+  }
+
+  private isHelper(object: THREE.Object3D): boolean {
+    for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+      if (this.helpers.has(current)) return true;
+    }
+    return false;
+  }
+
+  public getLightSettings() {
+    return {
+      direction: this.lightDirection.clone(),
+      intensity: this.directionalLight.intensity,
+      shadowsEnabled: this.shadowsEnabled
+    };
+  }
+
+  public createExportScene(includeLights: boolean): THREE.Scene {
+    const exportScene = new THREE.Scene();
+    exportScene.name = 'room';
+    
+    // Turn the highlight off while copying so the emissive glow never ends up in the export.
+    const selection = this.getSelection();
+    selection.forEach(obj => this.updateSelectionHighlight(obj, false));
+    
+    const roots: THREE.Object3D[] = [this.floor, this.walls, this.fixtures]
+      .filter((root): root is THREE.Mesh | THREE.Group => root !== null);
+    this.furniture.forEach(item => roots.push(item.group));
+    
+    roots.forEach(root => {
+      const copy = root.clone(true);
+      copy.userData.isFurniture = this.furniture.some(item => item.group === root);
+      copy.traverse(child => {
+        if (child instanceof THREE.Mesh) {
+          child.material = Array.isArray(child.material)
+            ? child.material.map(material => material.clone())
+            : child.material.clone();
+          bakeSurfaceUv(child);
+        }
+      });
+      exportScene.add(copy);
+    });
+    
+    selection.forEach(obj => this.updateSelectionHighlight(obj, true));
+    
+    if (includeLights) {
+      exportScene.add(this.ambientLight.clone());
+      const sun = this.directionalLight.clone();
+      sun.target = this.directionalLight.target.clone();
+      exportScene.add(sun, sun.target);
+    } else {
+      const lights: THREE.Light[] = [];
+      exportScene.traverse(child => {
+        if (child instanceof THREE.Light) lights.push(child);
+      });
+      lights.forEach(light => light.removeFromParent());
+    }
+    
+    exportScene.updateMatrixWorld(true);
+    return exportScene;
+  }
+
+  public describeFurniture(item: FurnitureObject): FurnitureDesign {
+    return {
+      type: item.type,
+      position: toVector3Data(item.group.position),
+      rotation: toVector3Data(item.group.rotation),
+      scale: toVector3Data(item.group.scale),
+      params: { ...item.params },
+      textureUrl: item.textureUrl ?? null,
+      partTextures: Object.entries(item.partTextureUrls ?? {}).map(([part, textureUrl]) => ({ part, textureUrl })),
+      uv: cloneSurfaceUv(item.uv ?? DEFAULT_SURFACE_UV)
+    };
+  }
+
+  public async createFurnitureFromDesign(
+    item: FurnitureDesign,
+    offset: THREE.Vector3 = new THREE.Vector3()
+  ): Promise<FurnitureObject | null> {
+    if (!this.furnitureCatalog.has(item.type)) {
+      console.warn(`Skipping unknown furniture type: ${item.type}`);
+      return null;
+    }
+
+    const furniture = this.addFurniture(item.type, item.params);
+    furniture.group.position.set(item.position.x, item.position.y, item.position.z).add(offset);
+    furniture.group.rotation.set(item.rotation.x, item.rotation.y, item.rotation.z);
+    furniture.group.scale.set(item.scale.x, item.scale.y, item.scale.z);
+    furniture.uv = cloneSurfaceUv(item.uv);
+
+    const sceneObj = this.sceneObjects.find(obj => obj.furnitureRef === furniture);
+    if (item.textureUrl && sceneObj) {
+      await this.loadTextureToObject(sceneObj, item.textureUrl);
+    }
+    for (const { part, textureUrl } of item.partTextures) {
+      if (sceneObj) {
+        await this.loadTextureToObject(sceneObj, textureUrl, part);
+      }
+    }
+    return furniture;
+  }
+
+  public toDesign(cameraTarget: THREE.Vector3, name = 'Untitled', bookmarks: CameraBookmark[] = []): RoomDesign {
+    return {
+      version: ROOM_DESIGN_VERSION,
+      name,
+      room: this.getRoomSpec(),
+      floorTextureUrl: this.floorMaterial?.ref ?? null,
+      wallTextureUrl: this.wallMaterial?.ref ?? null,
+      wallTextureOverrides: [...this.wallMaterialOverrides.entries()]
+        .filter(([, wallMaterial]) => wallMaterial.ref !== null)
+        .map(([wallIndex, wallMaterial]) => ({ wallIndex, textureUrl: wallMaterial.ref! })),
+      floorUv: cloneSurfaceUv(this.floorUv),
+      wallUv: cloneSurfaceUv(this.wallUv),
+      wallUvOverrides: [...this.wallUvOverrides.entries()].map(([wallIndex, uv]) => ({ wallIndex, uv: cloneSurfaceUv(uv) })),
+      lighting: {
+        direction: toVector3Data(this.lightDirection),
+        intensity: this.directionalLight.intensity,
+        shadowsEnabled: this.shadowsEnabled
+      },
+      camera: {
+        position: toVector3Data(this.camera.position),
+        target: toVector3Data(cameraTarget)
+      },
+      bookmarks: bookmarks.map(bookmark => ({
+        name: bookmark.name,
+        position: { ...bookmark.position },
+        target: { ...bookmark.target }
+      })),
+      models: [...new Set(this.furniture.map(item => item.type))]
+        .map(type => this.modelImporter.getSource(type))
+        .filter(model => model !== null),
+      furniture: this.furniture.map(item => this.describeFurniture(item))
+    };
+  }
+
+  public async loadDesign(design: RoomDesign) {
+    this.clearSelection();
+    this.clearFurniture();
+    this.setRoomSpec(design.room);
+
+    // Tiling goes in first so the materials below are laid out with it.
+    this.floorUv = cloneSurfaceUv(design.floorUv);
+    this.wallUv = cloneSurfaceUv(design.wallUv);
+    this.wallUvOverrides = new Map(design.wallUvOverrides.map(({ wallIndex, uv }) => [wallIndex, cloneSurfaceUv(uv)]));
+
+    // Start from the defaults so a texture that fails to load never leaves the previous design's material behind.
+    this.setDefaultFloorMaterial();
+    this.setDefaultWallMaterial();
+
+    const floorObj = this.sceneObjects.find(obj => obj.type === 'floor');
+    if (design.floorTextureUrl && floorObj) {
+      await this.loadTextureToObject(floorObj, design.floorTextureUrl);
+    }
+
+    const wallsObj = this.sceneObjects.find(obj => obj.type === 'walls');
+    if (design.wallTextureUrl && wallsObj) {
+      await this.loadTextureToObject(wallsObj, design.wallTextureUrl);
+    }
+
+    for (const override of design.wallTextureOverrides) {
+      const wallObj = this.sceneObjects.find(obj => obj.type === 'wall' && obj.wallIndex === override.wallIndex);
+      if (wallObj) {
+        await this.loadTextureToObject(wallObj, override.textureUrl);
+      }
+    }
+
+    for (const model of design.models) {
+      try {
+        await this.modelImporter.register(model);
+      } catch (error) {
+        console.error(`Failed to load imported model ${model.name}:`, error);
+      }
+    }
+
+    for (const item of design.furniture) {
+      await this.createFurnitureFromDesign(item);
+    }
+
+    const { direction, intensity, shadowsEnabled } = design.lighting;
+    this.setLightDirection(direction.x, direction.y, direction.z);
+    this.setLightIntensity(intensity);
+    this.setShadowsEnabled(shadowsEnabled);
+
+    const { position, target } = design.camera;
+    this.setCamera(
+      new THREE.Vector3(position.x, position.y, position.z),
+      new THREE.Vector3(target.x, target.y, target.z)
+    );
   }
 
   public dispose() {
@@ -0,0 +1,315 @@
+import * as THREE from 'three';
+
+import { FurnitureParams } from '../types/FurnitureCatalog';
+import { FurnitureObject, SceneObject } from '../types/FurnitureObject';
+import { SurfaceUv } from '../types/Material';
+import { RoomSpec } from '../types/RoomSpec';
+
+import { SceneCommand } from './CommandHistory';
+import { RoomScene, TextureState } from './RoomScene';
+
+export interface TransformState {
+  position: THREE.Vector3;
+  rotation: THREE.Euler;
+  scale: THREE.Vector3;
+}
+
+export function captureTransform(object: THREE.Object3D): TransformState {
+  return {
+    position: object.position.clone(),
+    rotation: object.rotation.clone(),
+    scale: object.scale.clone()
+  };
+}
+
+export interface FurnitureSizeState {
+  params: FurnitureParams;
+  scale: THREE.Vector3;
+}
+
+export function captureSize(furniture: FurnitureObject): FurnitureSizeState {
+  return {
+    params: { ...furniture.params },
+    scale: furniture.group.scale.clone()
+  };
+}
+
+function applyTransform(object: THREE.Object3D, state: TransformState) {
+  object.position.copy(state.position);
+  object.rotation.copy(state.rotation);
+  object.scale.copy(state.scale);
+}
+
+function transformsEqual(a: TransformState, b: TransformState): boolean {
+  return a.position.equals(b.position) && a.rotation.equals(b.rotation) && a.scale.equals(b.scale);
+}
+
+export class AddFurnitureCommand implements SceneCommand {
+  public label: string;
+  private scene: RoomScene;
+  private furniture: FurnitureObject;
+
+  constructor(scene: RoomScene, furniture: FurnitureObject) {
+    this.scene = scene;
+    this.furniture = furniture;
+    this.label = `Add ${furniture.type}`;
+  }
+
+  public execute() {
+    this.scene.restoreFurniture(this.furniture);
+  }
+
+  public undo() {
+    this.scene.removeFurniture(this.furniture);
+  }
+}
+
+export class RemoveFurnitureCommand implements SceneCommand {
+  public label: string;
+  private scene: RoomScene;
+  private furniture: FurnitureObject;
+
+  constructor(scene: RoomScene, furniture: FurnitureObject) {
+    this.scene = scene;
+    this.furniture = furniture;
+    this.label = `Delete ${furniture.type}`;
+  }
+
+  public execute() {
+    this.scene.removeFurniture(this.furniture);
+  }
+
+  public undo() {
+    this.scene.restoreFurniture(this.furniture);
+  }
+}
+
+export class TransformCommand implements SceneCommand {
+  public label: string;
+  private scene: RoomScene;
+  private object: THREE.Object3D;
+  private before: TransformState;
+  private after: TransformState;
+
+  constructor(
+    scene: RoomScene,
+    object: THREE.Object3D,
+    before: TransformState,
+    after: TransformState,
+    label = 'Transform'
+  ) {
+    this.scene = scene;
+    this.object = object;
+    this.before = before;
+    this.after = after;
+    this.label = label;
+  }
+
+  public isNoop(): boolean {
+    return transformsEqual(this.before, this.after);
+  }
+
+  public execute() {
+    applyTransform(this.object, this.after);
+    this.scene.notifyChange();
+  }
+
+  public undo() {
+    applyTransform(this.object, this.before);
+    this.scene.notifyChange();
+  }
+
+  public merge(next: SceneCommand): boolean {
+    if (!(next instanceof TransformCommand) || next.object !== this.object || next.label !== this.label) {
+      return false;
+    }
+    this.after = next.after;
+    return true;
+  }
+}
+
+// Applies one transform change to several objects, e.g. moving or rotating a multi-selection.
+export class GroupTransformCommand implements SceneCommand {
+  public label: string;
+  private scene: RoomScene;
+  private objects: THREE.Object3D[];
+  private before: TransformState[];
+  private after: TransformState[];
+
+  constructor(
+    scene: RoomScene,
+    objects: THREE.Object3D[],
+    before: TransformState[],
+    after: TransformState[],
+    label = 'Transform'
+  ) {
+    this.scene = scene;
+    this.objects = objects;
+    this.before = before;
+    this.after = after;
+    this.label = label;
+  }
+
+  public isNoop(): boolean {
+    return this.before.every((state, i) => transformsEqual(state, this.after[i]));
+  }
+
+  public execute() {
+    this.objects.forEach((object, i) => applyTransform(object, this.after[i]));
+    this.scene.notifyChange();
+  }
+
+  public undo() {
+    this.objects.forEach((object, i) => applyTransform(object, this.before[i]));
+    this.scene.notifyChange();
+  }
+
+  public merge(next: SceneCommand): boolean {
+    if (
+      !(next instanceof GroupTransformCommand) ||
+      next.label !== this.label ||
+      next.objects.length !== this.objects.length ||
+      next.objects.some((object, i) => object !== this.objects[i])
+    ) {
+      return false;
+    }
+    this.after = next.after;
+    return true;
+  }
+}
+
+// Bundles several commands into a single undo step; undo runs them in reverse order.
+export class CompositeCommand implements SceneCommand {
+  public label: string;
+  private commands: SceneCommand[];
+
+  constructor(label: string, commands: SceneCommand[]) {
+    this.label = label;
+    this.commands = commands;
+  }
+
+  public execute() {
+    this.commands.forEach(command => command.execute());
+  }
+
+  public undo() {
+    [...this.commands].reverse().forEach(command => command.undo());
+  }
+}
+
+export class ResizeFurnitureCommand implements SceneCommand {
+  public label: string;
+  private scene: RoomScene;
+  private furniture: FurnitureObject;
+  private before: FurnitureSizeState;
+  private after: FurnitureSizeState;
+
+  constructor(scene: RoomScene, furniture: FurnitureObject, before: FurnitureSizeState, after: FurnitureSizeState) {
+    this.scene = scene;
+    this.furniture = furniture;
+    this.before = before;
+    this.after = after;
+    this.label = `Resize ${furniture.type}`;
+  }
+
+  public execute() {
+    this.scene.resizeFurniture(this.furniture, this.after.params, this.after.scale);
+  }
+
+  public undo() {
+    this.scene.resizeFurniture(this.furniture, this.before.params, this.before.scale);
+  }
+
+  public merge(next: SceneCommand): boolean {
+    if (!(next instanceof ResizeFurnitureCommand) || next.furniture !== this.furniture) {
+      return false;
+    }
+    this.after = next.after;
+    return true;
+  }
+}
+
+export class TextureCommand implements SceneCommand {
+  public label: string;
+  private scene: RoomScene;
+  private target: SceneObject;
+  private before: TextureState;
+  private after: TextureState;
+
+  constructor(scene: RoomScene, target: SceneObject, before: TextureState, after: TextureState) {
+    this.scene = scene;
+    this.target = target;
+    this.before = before;
+    this.after = after;
+    this.label = `Texture ${target.name}`;
+  }
+
+  public execute() {
+    this.scene.restoreTextureState(this.target, this.after);
+  }
+
+  public undo() {
+    this.scene.restoreTextureState(this.target, this.before);
+  }
+}
+
+export class SurfaceUvCommand implements SceneCommand {
+  public label: string;
+  private scene: RoomScene;
+  private target: SceneObject;
+  private before: SurfaceUv | null;
+  private after: SurfaceUv | null;
+
+  constructor(scene: RoomScene, target: SceneObject, before: SurfaceUv | null, after: SurfaceUv | null) {
+    this.scene = scene;
+    this.target = target;
+    this.before = before;
+    this.after = after;
+    this.label = `Tiling ${target.name}`;
+  }
+
+  public execute() {
+    this.scene.setSurfaceUv(this.target, this.after);
+  }
+
+  public undo() {
+    this.scene.setSurfaceUv(this.target, this.before);
+  }
+
+  public merge(next: SceneCommand): boolean {
+    if (!(next instanceof SurfaceUvCommand) || next.target !== this.target) {
+      return false;
+    }
+    this.after = next.after;
+    return true;
+  }
+}
+
+export class RoomSpecCommand implements SceneCommand {
+  public label: string;
+  private scene: RoomScene;
+  private before: RoomSpec;
+  private after: RoomSpec;
+
+  constructor(scene: RoomScene, before: RoomSpec, after: RoomSpec, label = 'Edit room') {
+    this.scene = scene;
+    this.before = before;
+    this.after = after;
+    this.label = label;
+  }
+
+  public execute() {
+    this.scene.setRoomSpec(this.after);
+  }
+
+  public undo() {
+    this.scene.setRoomSpec(this.before);
+  }
+  public merge(next: SceneCommand): boolean {
+    if (!(next instanceof RoomSpecCommand) || next.label !== this.label) {
+      return false;
+    }
+    this.after = next.after;
+    return true;
+  }
+}
@@ -0,0 +1,219 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+
+import { RoomScene } from './RoomScene';
+
+export type ExportFormat = 'glb' | 'obj';
+
+export interface SceneExportOptions {
+  format: ExportFormat;
+  includeLights: boolean;
+  mergeFurniture: boolean;
+}
+
+export interface ExportedFile {
+  name: string;
+  data: Blob;
+}
+
+const MERGED_ATTRIBUTES = ['position', 'normal', 'uv'];
+
+function mergePiece(piece: THREE.Object3D) {
+  const meshes: THREE.Mesh[] = [];
+  piece.traverse(child => {
+    if (child instanceof THREE.Mesh && !Array.isArray(child.material)) meshes.push(child);
+  });
+  if (meshes.length < 2) return;
+
+  piece.updateMatrixWorld(true);
+  const toPiece = piece.matrixWorld.clone().invert();
+
+  // mergeGeometries needs identical attribute sets, so keep the common ones on non-indexed copies.
+  const attributes = MERGED_ATTRIBUTES.filter(name => meshes.every(mesh => mesh.geometry.getAttribute(name)));
+  const geometries = meshes.map(mesh => {
+    const source = mesh.geometry.index ? mesh.geometry.toNonIndexed() : mesh.geometry.clone();
+    const geometry = new THREE.BufferGeometry();
+    attributes.forEach(name => geometry.setAttribute(name, source.getAttribute(name)));
+    geometry.applyMatrix4(toPiece.clone().multiply(mesh.matrixWorld));
+    return geometry;
+  });
+
+  const merged = mergeGeometries(geometries, true);
+  if (!merged) {
+    console.warn(`Could not merge meshes of ${piece.name}, exporting them separately`);
+    return;
+  }
+
+  const mesh = new THREE.Mesh(merged, meshes.map(m => m.material as THREE.Material));
+  mesh.name = piece.name;
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  meshes.forEach(m => m.removeFromParent());
+  piece.add(mesh);
+}
+
+function textureToPng(texture: THREE.Texture): Promise<Blob | null> {
+  const image = texture.image as CanvasImageSource & { width: number; height: number } | undefined;
+  if (!image || !image.width || !image.height) return Promise.resolve(null);
+
+  let canvas: HTMLCanvasElement;
+  if (image instanceof HTMLCanvasElement) {
+    canvas = image;
+  } else {
+    canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    canvas.getContext('2d')?.drawImage(image, 0, 0);
+  }
+
+  return new Promise(resolve => {
+    try {
+      canvas.toBlob(blob => resolve(blob), 'image/png');
+    } catch (error) {
+      console.warn('Could not bake texture to PNG:', error);
+      resolve(null);
+    }
+  });
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(6)).toString();
+}
+
+export class SceneExporter {
+  private roomScene: RoomScene;
+
+  constructor(roomScene: RoomScene) {
+    this.roomScene = roomScene;
+  }
+
+  public async export(options: SceneExportOptions, baseName = 'room'): Promise<ExportedFile[]> {
+    const exportScene = this.roomScene.createExportScene(options.includeLights);
+
+    if (options.mergeFurniture) {
+      exportScene.children
+        .filter(child => child.userData.isFurniture)
+        .forEach(mergePiece);
+    }
+
+    if (options.format === 'glb') {
+      return [await this.toGlb(exportScene, baseName)];
+    }
+    return this.toObj(exportScene, baseName);
+  }
+
+  private async toGlb(exportScene: THREE.Scene, baseName: string): Promise<ExportedFile> {
+    const exporter = new GLTFExporter();
+    const result = await exporter.parseAsync(exportScene, { binary: true });
+    return {
+      name: `${baseName}.glb`,
+      data: new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' })
+    };
+  }
+
+  private async toObj(exportScene: THREE.Scene, baseName: string): Promise<ExportedFile[]> {
+    const materialNames = new Map<THREE.Material, string>();
+    // Texture clones share one image source, so each image is written out once.
+    const textureFiles = new Map<THREE.Texture['source'], string>();
+    const files: ExportedFile[] = [];
+
+    const materialName = (material: THREE.Material): string => {
+      let name = materialNames.get(material);
+      if (!name) {
+        name = `material_${materialNames.size}`;
+        materialNames.set(material, name);
+      }
+      return name;
+    };
+
+    const obj: string[] = [`mtllib ${baseName}.mtl`];
+    let vertexOffset = 1;
+    let objectIndex = 0;
+
+    exportScene.traverse(child => {
+      if (!(child instanceof THREE.Mesh) || !child.visible) return;
+
+      const geometry = child.geometry as THREE.BufferGeometry;
+      const position = geometry.getAttribute('position');
+      if (!position) return;
+      const normal = geometry.getAttribute('normal');
+      const uv = geometry.getAttribute('uv');
+      const normalMatrix = new THREE.Matrix3().getNormalMatrix(child.matrixWorld);
+      const vertex = new THREE.Vector3();
+
+      obj.push(`o ${child.name || child.parent?.name || 'mesh'}_${objectIndex++}`);
+      for (let i = 0; i < position.count; i++) {
+        vertex.fromBufferAttribute(position, i).applyMatrix4(child.matrixWorld);
+        obj.push(`v ${formatNumber(vertex.x)} ${formatNumber(vertex.y)} ${formatNumber(vertex.z)}`);
+      }
+      if (uv) {
+        for (let i = 0; i < uv.count; i++) {
+          obj.push(`vt ${formatNumber(uv.getX(i))} ${formatNumber(uv.getY(i))}`);
+        }
+      }
+      if (normal) {
+        for (let i = 0; i < normal.count; i++) {
+          vertex.fromBufferAttribute(normal, i).applyMatrix3(normalMatrix).normalize();
+          obj.push(`vn ${formatNumber(vertex.x)} ${formatNumber(vertex.y)} ${formatNumber(vertex.z)}`);
+        }
+      }
+
+      const indexCount = geometry.index ? geometry.index.count : position.count;
+      const indexAt = (i: number) => (geometry.index ? geometry.index.getX(i) : i);
+      const corner = (i: number) => {
+        const v = indexAt(i) + vertexOffset;
+        if (uv && normal) return `${v}/${v}/${v}`;
+        if (uv) return `${v}/${v}`;
+        if (normal) return `${v}//${v}`;
+        return `${v}`;
+      };
+
+      const materials = Array.isArray(child.material) ? child.material : [child.material];
+      const groups = geometry.groups.length > 0
+        ? geometry.groups
+        : [{ start: 0, count: indexCount, materialIndex: 0 }];
+
+      groups.forEach(group => {
+        const material = materials[group.materialIndex ?? 0];
+        if (material) obj.push(`usemtl ${materialName(material)}`);
+        const end = Math.min(group.start + group.count, indexCount);
+        for (let i = group.start; i + 2 < end; i += 3) {
+          obj.push(`f ${corner(i)} ${corner(i + 1)} ${corner(i + 2)}`);
+        }
+      });
+
+      vertexOffset += position.count;
+    });
+
+    const mtl: string[] = [];
+    for (const [material, name] of materialNames) {
+      const { color, opacity, map } = material as THREE.MeshStandardMaterial;
+      mtl.push(`newmtl ${name}`);
+      if (color) mtl.push(`Kd ${formatNumber(color.r)} ${formatNumber(color.g)} ${formatNumber(color.b)}`);
+      mtl.push(`d ${formatNumber(opacity)}`);
+
+      if (map) {
+        let fileName = textureFiles.get(map.source);
+        if (!fileName) {
+          const png = await textureToPng(map);
+          if (png) {
+            fileName = `${baseName}_texture_${textureFiles.size}.png`;
+            textureFiles.set(map.source, fileName);
+            files.push({ name: fileName, data: png });
+          }
+        }
+        if (fileName) {
+          mtl.push(`map_Kd -s ${formatNumber(map.repeat.x)} ${formatNumber(map.repeat.y)} 1 ${fileName}`);
+        }
+      }
+      mtl.push('');
+    }
+
+    return [
+      { name: `${baseName}.obj`, data: new Blob([obj.join('\n') + '\n'], { type: 'text/plain' }) },
+      { name: `${baseName}.mtl`, data: new Blob([mtl.join('\n')], { type: 'text/plain' }) },
+      ...files
+    ];
+  }
+}
@@ -0,0 +1,65 @@
+import * as THREE from 'three';
+
+import { CameraBookmark } from '../types/RoomDesign';
+
+import { RoomScene } from './RoomScene';
+import { ExportedFile } from './SceneExporter';
+
+export type CaptureFormat = 'png' | 'jpeg';
+
+export interface CaptureOptions {
+  width: number;
+  height: number;
+  format: CaptureFormat;
+  quality: number;
+  transparent: boolean;
+}
+
+export const MAX_CAPTURE_SIZE = 8192;
+
+function canvasToBlob(canvas: HTMLCanvasElement, format: CaptureFormat, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error(`Could not encode the ${format.toUpperCase()} image`)),
+      `image/${format}`,
+      quality
+    );
+  });
+}
+
+function fileSlug(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'view';
+}
+
+export class ScreenCapture {
+  private roomScene: RoomScene;
+
+  constructor(roomScene: RoomScene) {
+    this.roomScene = roomScene;
+  }
+
+  public async capture(options: CaptureOptions, baseName = 'room', camera?: THREE.Camera): Promise<ExportedFile> {
+    const width = THREE.MathUtils.clamp(Math.round(options.width), 1, MAX_CAPTURE_SIZE);
+    const height = THREE.MathUtils.clamp(Math.round(options.height), 1, MAX_CAPTURE_SIZE);
+    // JPEG has no alpha channel, so transparency only applies to PNG.
+    const transparent = options.transparent && options.format === 'png';
+
+    const canvas = this.roomScene.captureImage(width, height, { camera, transparent });
+    const data = await canvasToBlob(canvas, options.format, options.quality);
+    const extension = options.format === 'png' ? 'png' : 'jpg';
+    return { name: `${baseName}.${extension}`, data };
+  }
+
+  // Each view is rendered from its own camera; the one on screen is never moved.
+  public async captureViews(views: CameraBookmark[], options: CaptureOptions, baseName = 'room'): Promise<ExportedFile[]> {
+    const files: ExportedFile[] = [];
+    for (const [index, view] of views.entries()) {
+      const camera = this.roomScene.getPerspectiveCamera().clone();
+      camera.position.copy(view.position);
+      camera.lookAt(view.target.x, view.target.y, view.target.z);
+      const number = String(index + 1).padStart(2, '0');
+      files.push(await this.capture(options, `${baseName}-${number}-${fileSlug(view.name)}`, camera));
+    }
+    return files;
+  }
+}
@@ -0,0 +1,150 @@
+import * as THREE from 'three';
+
+import { RoomPoint } from '../types/RoomSpec';
+
+import { WallSegment } from './RoomGeometry';
+
+export interface SnapSettings {
+  enabled: boolean;
+  gridStep: number;
+  angleStep: number;
+  walls: boolean;
+  furniture: boolean;
+  threshold: number;
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  enabled: true,
+  gridStep: 0.25,
+  angleStep: 15,
+  walls: true,
+  furniture: true,
+  threshold: 0.3
+};
+
+export interface SnapGuide {
+  start: THREE.Vector3;
+  end: THREE.Vector3;
+}
+
+export interface WallSnap {
+  wallIndex: number;
+  position: THREE.Vector3;
+  rotationY: number;
+  guide: SnapGuide;
+}
+
+export interface AlignmentSnap {
+  offsetX: number;
+  offsetZ: number;
+  guides: SnapGuide[];
+}
+
+interface Extent {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+export function snapToGrid(value: number, step: number): number {
+  return step > 0 ? Math.round(value / step) * step : value;
+}
+
+export function snapAngle(degrees: number, step: number): number {
+  return step > 0 ? Math.round(degrees / step) * step : degrees;
+}
+
+function extentOf(corners: RoomPoint[]): Extent {
+  return {
+    minX: Math.min(...corners.map(p => p.x)),
+    maxX: Math.max(...corners.map(p => p.x)),
+    minZ: Math.min(...corners.map(p => p.z)),
+    maxZ: Math.max(...corners.map(p => p.z))
+  };
+}
+
+// `backDepth` is the distance from the piece's origin to its back (local -Z) face.
+export function findWallSnap(
+  position: THREE.Vector3,
+  backDepth: number,
+  segments: WallSegment[],
+  threshold: number
+): WallSnap | null {
+  let best: WallSnap | null = null;
+  let bestDistance = threshold;
+
+  for (const segment of segments) {
+    const fromStart = position.clone().sub(segment.start);
+    const along = fromStart.dot(segment.direction);
+    if (along < 0 || along > segment.length) continue;
+
+    const gap = Math.abs(fromStart.dot(segment.inward) - backDepth);
+    if (gap > bestDistance) continue;
+
+    bestDistance = gap;
+    const onWall = segment.start.clone().addScaledVector(segment.direction, along);
+    best = {
+      wallIndex: segment.index,
+      position: onWall.clone().addScaledVector(segment.inward, backDepth).setY(position.y),
+      // Face the piece's front (local +Z) into the room so its back rests against the wall.
+      rotationY: Math.atan2(segment.inward.x, segment.inward.z),
+      guide: { start: segment.start.clone(), end: segment.end.clone() }
+    };
+  }
+
+  return best;
+}
+
+export function findAlignment(moving: RoomPoint[], others: RoomPoint[][], threshold: number): AlignmentSnap {
+  const snap: AlignmentSnap = { offsetX: 0, offsetZ: 0, guides: [] };
+  if (moving.length === 0) return snap;
+
+  const self = extentOf(moving);
+  const selfX = [self.minX, (self.minX + self.maxX) / 2, self.maxX];
+  const selfZ = [self.minZ, (self.minZ + self.maxZ) / 2, self.maxZ];
+
+  let alignedX: { delta: number; line: number; other: Extent } | null = null;
+  let alignedZ: { delta: number; line: number; other: Extent } | null = null;
+
+  for (const corners of others) {
+    if (corners.length === 0) continue;
+    const other = extentOf(corners);
+    const otherX = [other.minX, (other.minX + other.maxX) / 2, other.maxX];
+    const otherZ = [other.minZ, (other.minZ + other.maxZ) / 2, other.maxZ];
+
+    // Edges and centres line up with edges and centres, which also covers edge-to-edge contact.
+    for (const x of selfX) {
+      for (const line of otherX) {
+        const delta = line - x;
+        if (Math.abs(delta) <= threshold && (!alignedX || Math.abs(delta) < Math.abs(alignedX.delta))) {
+          alignedX = { delta, line, other };
+        }
+      }
+    }
+    for (const z of selfZ) {
+      for (const line of otherZ) {
+        const delta = line - z;
+        if (Math.abs(delta) <= threshold && (!alignedZ || Math.abs(delta) < Math.abs(alignedZ.delta))) {
+          alignedZ = { delta, line, other };
+        }
+      }
+    }
+  }
+
+  if (alignedX) {
+    snap.offsetX = alignedX.delta;
+    snap.guides.push({
+      start: new THREE.Vector3(alignedX.line, 0, Math.min(self.minZ, alignedX.other.minZ)),
+      end: new THREE.Vector3(alignedX.line, 0, Math.max(self.maxZ, alignedX.other.maxZ))
+    });
+  }
+  if (alignedZ) {
+    snap.offsetZ = alignedZ.delta;
+    snap.guides.push({
+      start: new THREE.Vector3(Math.min(self.minX, alignedZ.other.minX), 0, alignedZ.line),
+      end: new THREE.Vector3(Math.max(self.maxX, alignedZ.other.maxX), 0, alignedZ.line)
+    });
+  }
+  return snap;
+}
@@ -0,0 +1,230 @@
+import { invoke, isTauri } from '@tauri-apps/api/core';
+import { open } from '@tauri-apps/plugin-dialog';
+
+// Designs refer to cached images by content hash, so they load the same on any machine that has the cache.
+export const TEXTURE_CACHE_SCHEME = 'texture-cache://';
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp'];
+const IMAGE_FILTERS = [{ name: 'Images', extensions: IMAGE_EXTENSIONS }];
+const THUMBNAIL_SIZE = 96;
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+export interface CachedTexture {
+  // <sha256>.<extension> inside the cache directory.
+  file: string;
+  name: string;
+  // The remote URL the image was downloaded from; null for files imported from disk.
+  source: string | null;
+  // Small JPEG data URL for pickers.
+  thumbnail: string;
+}
+
+export class TextureCacheError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TextureCacheError';
+  }
+}
+
+function extensionOf(path: string): string | null {
+  const match = /\.([a-z0-9]+)(?:[?#].*)?$/i.exec(path);
+  const extension = match?.[1].toLowerCase() ?? null;
+  return extension && IMAGE_EXTENSIONS.includes(extension) ? extension : null;
+}
+
+function extensionForType(type: string): string | null {
+  return Object.keys(MIME_TYPES).find(extension => MIME_TYPES[extension] === type) ?? null;
+}
+
+function displayName(path: string): string {
+  const fileName = path.split(/[\\/]/).pop()?.split(/[?#]/)[0] ?? path;
+  return fileName.replace(/\.[^.]+$/, '') || fileName;
+}
+
+// file:// URLs and Windows drive paths typed where a texture URL is expected. A leading / is a site-root URL that
+// the web build serves, so POSIX files have to be given as file:// URLs.
+export function isLocalTexturePath(url: string): boolean {
+  return url.startsWith('file://') || /^[a-zA-Z]:[\\/]/.test(url);
+}
+
+async function contentHash(data: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await data.arrayBuffer());
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function createThumbnail(data: Blob): Promise<string> {
+  const bitmap = await createImageBitmap(data);
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_SIZE;
+  canvas.height = THUMBNAIL_SIZE;
+  // Crop the centre square so every thumbnail fills its slot without stretching.
+  const side = Math.min(bitmap.width, bitmap.height);
+  canvas.getContext('2d')?.drawImage(
+    bitmap,
+    (bitmap.width - side) / 2,
+    (bitmap.height - side) / 2,
+    side,
+    side,
+    0,
+    0,
+    THUMBNAIL_SIZE,
+    THUMBNAIL_SIZE
+  );
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.8);
+}
+
+export class TextureCache {
+  private entries: CachedTexture[] = [];
+  // Object URLs for cache files read this session. In the browser there is no disk cache, so this is the only copy.
+  private objectUrls = new Map<string, string>();
+  private changeListeners: (() => void)[] = [];
+  // Shared by everything that needs the index, so a design opened during startup still finds its cached textures.
+  private indexLoaded: Promise<void> | null = null;
+
+  public isNative(): boolean {
+    return isTauri();
+  }
+
+  public onChange(listener: () => void) {
+    this.changeListeners.push(listener);
+  }
+
+  public list(): CachedTexture[] {
+    return this.entries;
+  }
+
+  public urlFor(entry: CachedTexture): string {
+    return `${TEXTURE_CACHE_SCHEME}${entry.file}`;
+  }
+
+  public loadIndex(): Promise<void> {
+    if (!this.indexLoaded) {
+      this.indexLoaded = this.readIndex();
+      // A failed read should be retried next time rather than remembered.
+      this.indexLoaded.catch(() => { this.indexLoaded = null; });
+    }
+    return this.indexLoaded;
+  }
+
+  // Turns a texture URL into one the texture loader can read without the network when the image is cached.
+  // Remote images are downloaded into the cache on first use; if that fails the URL is returned as is.
+  public async resolve(url: string): Promise<string> {
+    if (url.startsWith(TEXTURE_CACHE_SCHEME)) {
+      return this.objectUrlFor(url.slice(TEXTURE_CACHE_SCHEME.length));
+    }
+    if (!this.isNative() || !/^https?:\/\//.test(url)) {
+      return url;
+    }
+
+    await this.loadIndex().catch(error => console.warn('Texture cache index unavailable:', error));
+    const cached = this.entries.find(entry => entry.source === url);
+    if (cached) {
+      return this.objectUrlFor(cached.file);
+    }
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new TextureCacheError(`HTTP ${response.status}`);
+      }
+      const entry = await this.store(await response.blob(), displayName(url), url, extensionOf(url));
+      console.log(`💾 Cached texture ${entry.name}`);
+      return this.objectUrlFor(entry.file);
+    } catch (error) {
+      console.warn(`Could not cache texture ${url}:`, error);
+      return url;
+    }
+  }
+
+  // Local paths become cache references so designs do not depend on where the file was; anything else is kept.
+  public async toReference(url: string): Promise<string> {
+    if (!isLocalTexturePath(url) || !this.isNative()) return url;
+    const entry = await this.importPath(decodeURI(url.replace(/^file:\/\//, '')));
+    return this.urlFor(entry);
+  }
+
+  public async importFile(): Promise<CachedTexture | null> {
+    if (!this.isNative()) {
+      const file = await this.pickBrowserFile();
+      return file ? this.store(file, displayName(file.name), null, extensionOf(file.name)) : null;
+    }
+
+    const path = await open({ multiple: false, directory: false, filters: IMAGE_FILTERS });
+    return path ? this.importPath(path) : null;
+  }
+
+  private async importPath(path: string): Promise<CachedTexture> {
+    const extension = extensionOf(path);
+    if (!extension) {
+      throw new TextureCacheError(`Unsupported image type: ${path} (use ${IMAGE_EXTENSIONS.join(', ')})`);
+    }
+    const contents = await invoke<ArrayBuffer>('read_texture_file', { path });
+    const entry = await this.store(new Blob([contents], { type: MIME_TYPES[extension] }), displayName(path), null, extension);
+    console.log(`📥 Imported texture ${entry.name}`);
+    return entry;
+  }
+
+  private async store(data: Blob, name: string, source: string | null, fallbackExtension: string | null): Promise<CachedTexture> {
+    const extension = extensionForType(data.type) ?? fallbackExtension;
+    if (!extension) {
+      throw new TextureCacheError(`${name} is not a supported image (use ${IMAGE_EXTENSIONS.join(', ')})`);
+    }
+    const file = `${await contentHash(data)}.${extension}`;
+    const entry: CachedTexture = { file, name, source, thumbnail: await createThumbnail(data) };
+
+    if (!this.objectUrls.has(file)) {
+      this.objectUrls.set(file, URL.createObjectURL(new Blob([data], { type: MIME_TYPES[extension] })));
+    }
+    if (this.isNative()) {
+      // The index read below would otherwise overwrite the entry added here.
+      await this.loadIndex().catch(error => console.warn('Texture cache index unavailable:', error));
+      const contents = new Uint8Array(await data.arrayBuffer());
+      await invoke('write_cached_texture', contents, { headers: { file } });
+      this.entries = await invoke<CachedTexture[]>('add_cached_texture', { entry });
+    } else {
+      this.entries = [entry, ...this.entries.filter(existing => existing.file !== file)];
+    }
+    this.notifyChange();
+    return entry;
+  }
+
+  private async readIndex() {
+    if (!this.isNative()) return;
+    this.entries = await invoke<CachedTexture[]>('get_cached_textures');
+    this.notifyChange();
+  }
+
+  private async objectUrlFor(file: string): Promise<string> {
+    const existing = this.objectUrls.get(file);
+    if (existing) return existing;
+    if (!this.isNative()) {
+      throw new TextureCacheError(`Texture ${file} is only available in the desktop app's texture cache`);
+    }
+
+    const contents = await invoke<ArrayBuffer>('read_cached_texture', { file });
+    const url = URL.createObjectURL(new Blob([contents], { type: MIME_TYPES[extensionOf(file) ?? 'png'] }));
+    this.objectUrls.set(file, url);
+    return url;
+  }
+
+  private notifyChange() {
+    this.changeListeners.forEach(listener => listener());
+  }
+
+  private pickBrowserFile(): Promise<File | null> {
+    return new Promise((resolve) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = IMAGE_EXTENSIONS.map(extension => `.${extension}`).join(',');
+      input.addEventListener('change', () => resolve(input.files?.[0] ?? null));
+      input.addEventListener('cancel', () => resolve(null));
+      input.click();
+    });
+  }
+}
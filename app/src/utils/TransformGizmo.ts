@@ -0,0 +1,197 @@
+import * as THREE from 'three';
+import { TransformControls } from 'three/examples/jsm/controls/TransformControls.js';
+
+import { FurnitureObject } from '../types/FurnitureObject';
+
+import { OrbitControls } from './OrbitControls';
+import { RoomScene } from './RoomScene';
+import { TransformCommand, TransformState, captureTransform } from './SceneCommands';
+
+export type GizmoMode = 'translate' | 'rotate' | 'scale';
+export type GizmoSpace = 'local' | 'world';
+
+const MODE_KEYS: { [key: string]: GizmoMode } = {
+  '1': 'translate',
+  '2': 'rotate',
+  '3': 'scale'
+};
+
+const MODE_LABELS: Record<GizmoMode, string> = {
+  translate: 'Move',
+  rotate: 'Rotate',
+  scale: 'Scale'
+};
+
+const MIN_SCALE = 0.1;
+
+export class TransformGizmo {
+  private controls: TransformControls;
+  private roomScene: RoomScene;
+  private orbit: OrbitControls;
+  private furniture: FurnitureObject | null = null;
+  private dragStart: TransformState | null = null;
+  private lastValid: TransformState | null = null;
+  private altHeld = false;
+  private onCommit: (command: TransformCommand) => void;
+  private onChange?: () => void;
+  private keydownHandler: (e: KeyboardEvent) => void;
+  private keyupHandler: (e: KeyboardEvent) => void;
+
+  constructor(
+    roomScene: RoomScene,
+    orbit: OrbitControls,
+    domElement: HTMLElement,
+    onCommit: (command: TransformCommand) => void,
+    onChange?: () => void
+  ) {
+    this.roomScene = roomScene;
+    this.orbit = orbit;
+    this.onCommit = onCommit;
+    this.onChange = onChange;
+
+    this.controls = new TransformControls(roomScene.getCamera(), domElement);
+    this.controls.setSize(0.8);
+    this.controls.enabled = false;
+    roomScene.addHelper(this.controls.getHelper());
+
+    this.controls.addEventListener('dragging-changed', (event) => {
+      this.orbit.setSuspended(event.value as boolean);
+      if (event.value) {
+        this.beginDrag();
+      } else {
+        this.endDrag();
+      }
+    });
+    this.controls.addEventListener('objectChange', () => this.constrain());
+
+    this.keydownHandler = this.onKeyDown.bind(this);
+    this.keyupHandler = this.onKeyUp.bind(this);
+    window.addEventListener('keydown', this.keydownHandler);
+    window.addEventListener('keyup', this.keyupHandler);
+  }
+
+  public attach(furniture: FurnitureObject | null) {
+    if (furniture === this.furniture) return;
+    this.furniture = furniture;
+    if (furniture) {
+      this.controls.attach(furniture.group);
+      this.controls.enabled = true;
+    } else {
+      this.controls.detach();
+      this.controls.enabled = false;
+    }
+  }
+
+  public setCamera(camera: THREE.Camera) {
+    this.controls.camera = camera;
+  }
+
+  public getMode(): GizmoMode {
+    return this.controls.getMode() as GizmoMode;
+  }
+
+  public setMode(mode: GizmoMode) {
+    this.controls.setMode(mode);
+    // Furniture only turns around the vertical axis; tilting would break footprints and collisions.
+    this.controls.showX = mode !== 'rotate';
+    this.controls.showZ = mode !== 'rotate';
+    this.onChange?.();
+  }
+
+  public getSpace(): GizmoSpace {
+    return this.controls.space as GizmoSpace;
+  }
+
+  public setSpace(space: GizmoSpace) {
+    this.controls.setSpace(space);
+    this.onChange?.();
+  }
+
+  // True while the pointer is on a handle or dragging one, so clicks must not reach the scene.
+  public isActive(): boolean {
+    return this.controls.enabled && (this.controls.dragging || this.controls.axis !== null);
+  }
+
+  public dispose() {
+    window.removeEventListener('keydown', this.keydownHandler);
+    window.removeEventListener('keyup', this.keyupHandler);
+    this.controls.detach();
+    this.roomScene.removeHelper(this.controls.getHelper());
+    this.controls.dispose();
+  }
+
+  private beginDrag() {
+    if (!this.furniture) return;
+    this.dragStart = captureTransform(this.furniture.group);
+    this.lastValid = captureTransform(this.furniture.group);
+
+    const snap = this.roomScene.getSnapSettings();
+    const useSnap = snap.enabled && snap.angleStep > 0;
+    this.controls.setRotationSnap(useSnap ? THREE.MathUtils.degToRad(snap.angleStep) : null);
+  }
+
+  private endDrag() {
+    this.roomScene.clearSnapGuides();
+    if (!this.furniture || !this.dragStart) return;
+
+    const group = this.furniture.group;
+    const command = new TransformCommand(
+      this.roomScene,
+      group,
+      this.dragStart,
+      captureTransform(group),
+      MODE_LABELS[this.getMode()]
+    );
+    this.dragStart = null;
+    this.lastValid = null;
+    if (!command.isNoop()) {
+      this.onCommit(command);
+    }
+  }
+
+  private constrain() {
+    if (!this.furniture || !this.lastValid) return;
+    const group = this.furniture.group;
+    const mode = this.getMode();
+
+    if (mode === 'translate') {
+      // Route the move through the scene so snapping and collisions apply like a mouse drag.
+      const target = group.position.clone();
+      target.y = Math.max(0, target.y);
+      group.position.copy(this.lastValid.position);
+      this.roomScene.dragFurniture(this.furniture, target, !this.altHeld);
+    } else {
+      if (mode === 'scale') {
+        group.scale.set(
+          Math.max(MIN_SCALE, group.scale.x),
+          Math.max(MIN_SCALE, group.scale.y),
+          Math.max(MIN_SCALE, group.scale.z)
+        );
+      }
+      // A step that would turn or grow the piece into a wall or another piece is dropped.
+      this.roomScene.settleFurnitureTransform(this.furniture, this.lastValid);
+    }
+
+    this.lastValid = captureTransform(group);
+    this.onChange?.();
+  }
+
+  private onKeyDown(e: KeyboardEvent) {
+    if (e.key === 'Alt') this.altHeld = true;
+    if (!this.furniture || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+    const key = e.key.toLowerCase();
+    if (MODE_KEYS[key]) {
+      this.setMode(MODE_KEYS[key]);
+      e.preventDefault();
+    } else if (key === 'l') {
+      this.setSpace(this.getSpace() === 'local' ? 'world' : 'local');
+      e.preventDefault();
+    }
+  }
+
+  private onKeyUp(e: KeyboardEvent) {
+    if (e.key === 'Alt') this.altHeld = false;
+  }
+}
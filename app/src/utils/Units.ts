@@ -0,0 +1,26 @@
+export type UnitSystem = 'metric' | 'imperial';
+
+const METERS_PER_INCH = 0.0254;
+const INCHES_PER_FOOT = 12;
+// Imperial lengths are rounded to the nearest quarter inch, like a tape measure.
+const INCH_FRACTIONS = ['', '¼', '½', '¾'];
+
+export function formatLength(meters: number, units: UnitSystem): string {
+  if (units === 'metric') {
+    return Math.abs(meters) < 1 ? `${Math.round(meters * 100)} cm` : `${meters.toFixed(2)} m`;
+  }
+
+  const quarters = Math.round(meters / METERS_PER_INCH * 4);
+  const feet = Math.floor(quarters / (INCHES_PER_FOOT * 4));
+  const remainder = quarters - feet * INCHES_PER_FOOT * 4;
+  const inches = `${Math.floor(remainder / 4)}${INCH_FRACTIONS[remainder % 4]}"`;
+  return feet > 0 ? `${feet}' ${inches}` : inches;
+}
+
+const SQUARE_FEET_PER_SQUARE_METER = 10.7639;
+
+export function formatArea(squareMeters: number, units: UnitSystem): string {
+  return units === 'metric'
+    ? `${squareMeters.toFixed(1)} m²`
+    : `${(squareMeters * SQUARE_FEET_PER_SQUARE_METER).toFixed(0)} ft²`;
+}
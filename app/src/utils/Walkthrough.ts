@@ -0,0 +1,105 @@
+import * as THREE from 'three';
+
+import { RoomPoint, RoomSpec } from '../types/RoomSpec';
+
+import { clampOpening, getWallSegments } from './RoomGeometry';
+
+export const EYE_HEIGHT = 1.6;
+export const WALKER_RADIUS = 0.25;
+const ENTRY_INSET = 0.6;
+const PUSH_ITERATIONS = 4;
+
+// A solid edge on the floor plane; x and y of the vectors are world x and z.
+export interface WalkSegment {
+  start: THREE.Vector2;
+  end: THREE.Vector2;
+}
+
+// A floor point just inside the first door, or null when the room has no door.
+export function findEntryPoint(room: RoomSpec): THREE.Vector3 | null {
+  const segments = getWallSegments(room.outline);
+  const door = room.openings.find(opening => opening.kind === 'door' && segments[opening.wallIndex]);
+  if (!door) return null;
+
+  const segment = segments[door.wallIndex];
+  const opening = clampOpening(door, segment.length, room.height);
+  return segment.start.clone()
+    .addScaledVector(segment.direction, opening.offset)
+    .addScaledVector(segment.inward, ENTRY_INSET);
+}
+
+// Walls become solid edges with gaps cut where doors are; windows stay solid. Furniture footprints are closed outlines.
+export function buildWalkObstacles(room: RoomSpec, footprints: RoomPoint[][]): WalkSegment[] {
+  const obstacles: WalkSegment[] = [];
+  const toFloor = (v: THREE.Vector3) => new THREE.Vector2(v.x, v.z);
+
+  getWallSegments(room.outline).forEach(segment => {
+    const gaps = room.openings
+      .filter(opening => opening.kind === 'door' && opening.wallIndex === segment.index)
+      .map(opening => clampOpening(opening, segment.length, room.height))
+      .map(opening => [opening.offset - opening.width / 2, opening.offset + opening.width / 2])
+      .sort((a, b) => a[0] - b[0]);
+
+    let from = 0;
+    [...gaps, [segment.length, segment.length]].forEach(([gapStart, gapEnd]) => {
+      if (gapStart > from) {
+        obstacles.push({
+          start: toFloor(segment.start.clone().addScaledVector(segment.direction, from)),
+          end: toFloor(segment.start.clone().addScaledVector(segment.direction, gapStart))
+        });
+      }
+      from = Math.max(from, gapEnd);
+    });
+  });
+
+  footprints.forEach(corners => {
+    corners.forEach((p, i) => {
+      const q = corners[(i + 1) % corners.length];
+      obstacles.push({ start: new THREE.Vector2(p.x, p.z), end: new THREE.Vector2(q.x, q.z) });
+    });
+  });
+
+  return obstacles;
+}
+
+function closestPointOnSegment(point: THREE.Vector2, segment: WalkSegment): THREE.Vector2 {
+  const edge = segment.end.clone().sub(segment.start);
+  const lengthSq = edge.lengthSq();
+  if (lengthSq === 0) return segment.start.clone();
+  const t = THREE.MathUtils.clamp(point.clone().sub(segment.start).dot(edge) / lengthSq, 0, 1);
+  return segment.start.clone().addScaledVector(edge, t);
+}
+
+// Moves a circle of the given radius by delta, pushing it back out of any edge it touches so it slides along walls.
+export function resolveWalkMovement(
+  position: THREE.Vector2,
+  delta: THREE.Vector2,
+  obstacles: WalkSegment[],
+  radius = WALKER_RADIUS
+): THREE.Vector2 {
+  // Small sub-steps so a fast frame can never tunnel through a thin wall.
+  const steps = Math.max(1, Math.ceil(delta.length() / (radius / 2)));
+  const step = delta.clone().divideScalar(steps);
+  const current = position.clone();
+
+  for (let i = 0; i < steps; i++) {
+    current.add(step);
+    for (let iteration = 0; iteration < PUSH_ITERATIONS; iteration++) {
+      let pushed = false;
+      for (const obstacle of obstacles) {
+        const closest = closestPointOnSegment(current, obstacle);
+        const distance = current.distanceTo(closest);
+        if (distance >= radius) continue;
+        if (distance > 1e-9) {
+          current.addScaledVector(current.clone().sub(closest).divideScalar(distance), radius - distance);
+        } else {
+          current.sub(step);
+        }
+        pushed = true;
+      }
+      if (!pushed) break;
+    }
+  }
+
+  return current;
+}
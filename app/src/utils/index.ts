@@ -1,3 +1,25 @@
 export * from './RoomScene';
 export * from './OrbitControls';
-export * from './FurnitureFactory';
\ No newline at end of file
+export * from './CameraBookmarks';
+export * from './Walkthrough';
+export * from './FurnitureCatalog';
+export * from './FurnitureFactory';
+export * from './ModelImporter';
+export * from './MaterialLibrary';
+export * from './ProceduralTextures';
+export * from './TextureCache';
+export * from './SceneExporter';
+export * from './ScreenCapture';
+export * from './DesignSerializer';
+export * from './DesignFileManager';
+export * from './CommandHistory';
+export * from './SceneCommands';
+export * from './TransformGizmo';
+export * from './RoomGeometry';
+export * from './Collision';
+export * from './Snapping';
+export * from './Units';
+export * from './Measurements';
+export * from './Annotations';
+export * from './PlanView';
+export * from './PlanExporter';